@@ -1,109 +1,53 @@
 "use server";
 
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import { headers } from "next/headers";
+import {
+  AnalysisImage,
+  MealAnalysis,
+  analyzeMealDescription,
+  analyzeMealImages,
+  findCachedImageAnalysis,
+  validateAnalysisDescription,
+  validateAnalysisImages,
+} from "@/lib/analysis";
+import { RateLimitError } from "@/lib/rateLimit";
+import { enforceAnalysisRateLimit, getRateLimitKey } from "@/lib/rateLimit/analysisLimit";
+
+interface AnalysisOptions {
+  servings?: number;
+  idToken?: string; // Firebase ID token, zodat de limiet per gebruiker geldt
+}
 
-const apiKey = process.env.GEMINI_API_KEY;
-const genAI = new GoogleGenerativeAI(apiKey || "");
+// Next haalt in productie de melding uit gegooide fouten van server actions weg,
+// dus de rate limit komt als waarde terug in plaats van als exception
+export type AnalysisActionResult =
+  | { result: MealAnalysis }
+  | { error: string; retryAfter: number };
 
 // Server-side rate limiting for AI analysis (prevent script abuse)
-const analysisRateLimit = new Map<string, { count: number; timestamp: number }>();
-
-export async function analyzeMeal(imageBase64: string, mimeType: string) {
-  // Simple IP-based rate limiting for the server action
+async function withAnalysisRateLimit(idToken: string | undefined, run: () => Promise<MealAnalysis>): Promise<AnalysisActionResult> {
   // In server actions, we get the IP from headers
-  const headersList = await headers();
-  const ip = headersList.get("x-forwarded-for") || "unknown";
-  
-  const now = Date.now();
-  const windowMs = 60 * 60 * 1000; // 1 hour
-  const maxRequests = 20; // max 20 analyses per hour per IP
-
-  const currentLimit = analysisRateLimit.get(ip);
-  if (currentLimit && (now - currentLimit.timestamp) < windowMs) {
-    if (currentLimit.count >= maxRequests) {
-      throw new Error("Je hebt de maximale limiet voor analyses per uur bereikt. Probeer het later opnieuw.");
-    }
-    currentLimit.count++;
-  } else {
-    analysisRateLimit.set(ip, { count: 1, timestamp: now });
-  }
-
-  if (!apiKey) {
-    throw new Error("GEMINI_API_KEY is not set");
-  }
-
-  // Input validation
-  if (!imageBase64 || !mimeType) {
-    throw new Error("Ongeldige invoer voor analyse");
-  }
-
-  // Limit base64 size to prevent huge payloads (e.g. 10MB)
-  if (imageBase64.length > 15 * 1024 * 1024) {
-    throw new Error("Afbeelding is te groot voor analyse");
-  }
-
+  const key = await getRateLimitKey(await headers(), idToken);
   try {
-    // Forced use of the specific model requested: gemini-2.5-flash-lite
-    const model = genAI.getGenerativeModel({ model: "gemini-2.5-flash-lite" });
-
-    const prompt = `Analyseer deze afbeelding van een maaltijd. 
-    Als het GEEN maaltijd is, retourneer dan { "isFood": false }. 
-    Als het WEL een maaltijd is, retourneer dan een JSON object met de volgende velden in het Nederlands: 
-    { 
-      "isFood": true, 
-      "title": "Een korte, pakkende titel van het gerecht (max 6 woorden)",
-      "details": "Een gedetailleerde beschrijving van het gerecht", 
-      "ingredients": ["ingrediënt 1", "ingrediënt 2", "etc (alleen strings, geen objecten)"], 
-      "recipe": "stap-voor-stap bereidingswijze", 
-      "shoppingList": "een overzichtelijke boodschappenlijst voor 2 personen, gegroepeerd per afdeling van de Albert Heijn (bijv. Groenten, Zuivel, Houdbaar)",
-      "healthScore": "Een streng, realistisch cijfer tussen 1 en 10. Wees kritisch: 10 is alleen voor perfect uitgebalanceerde, supergezonde maaltijden met veel groenten en weinig bewerkte producten. Een pizza of patat is typisch 4-5, een standaard pasta 6-7." 
-    } 
-    Retourneer ALLEEN de JSON.`;
-
-    const imagePart = {
-      inlineData: {
-        data: imageBase64,
-        mimeType: mimeType,
-      },
-    };
-
-    const result = await model.generateContent([prompt, imagePart]);
-    const response = await result.response;
-    const text = response.text();
-
-    if (!text) {
-      throw new Error("AI gaf een lege reactie terug.");
-    }
-
-    // Clean up markdown code blocks if present
-    const cleanText = text.replace(/```json\n?|\n?```/g, "").trim();
-    
-    try {
-      return JSON.parse(cleanText);
-    } catch {
-      console.error("Failed to parse AI response as JSON:", text);
-      throw new Error("AI reactie was geen geldige JSON.");
-    }
-  } catch (error: unknown) {
-    console.error("Gemini analysis failed:", error);
-    
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    const errorName = error instanceof Error ? error.name : undefined;
-    const errorStatus = typeof error === "object" && error && "status" in error ? (error as { status?: unknown }).status : undefined;
+    await enforceAnalysisRateLimit(key);
+  } catch (error) {
+    if (error instanceof RateLimitError) return { error: error.message, retryAfter: error.retryAfter };
+    throw error;
+  }
+  return { result: await run() };
+}
 
-    if (errorStatus === 429) {
-      throw new Error("AI limiet bereikt (Rate limit). Probeer het over een minuutje weer.");
-    }
-    
-    if (errorMessage.includes("API key")) {
-      throw new Error("Configuratie fout: Ongeldige API key.");
-    }
+export async function analyzeMeal(images: AnalysisImage[], options: AnalysisOptions = {}): Promise<AnalysisActionResult> {
+  // Dezelfde foto's opnieuw uploaden kost geen analyse en telt niet mee (zie findCachedImageAnalysis)
+  const cached = await findCachedImageAnalysis(images, options.servings);
+  if (cached) return { result: cached };
 
-    if (errorName === "AbortError" || errorMessage.includes("timeout")) {
-      throw new Error("De analyse duurde te lang (Timeout). Probeer het met een kleinere foto.");
-    }
+  // Een ongeldig verzoek kost geen analyse van de limiet
+  validateAnalysisImages(images);
+  return withAnalysisRateLimit(options.idToken, () => analyzeMealImages(images, options.servings));
+}
 
-    throw new Error("Server Fout: " + (errorMessage || "De server gaf een onverwachte reactie. Controleer je internetverbinding en probeer het opnieuw."));
-  }
+export async function analyzeMealText(description: string, options: AnalysisOptions = {}): Promise<AnalysisActionResult> {
+  validateAnalysisDescription(description);
+  return withAnalysisRateLimit(options.idToken, () => analyzeMealDescription(description, options.servings));
 }
@@ -1,70 +1,120 @@
 import { NextRequest, NextResponse } from "next/server";
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import {
+  AnalysisError,
+  AnalysisImage,
+  AnalysisRunOptions,
+  AnalysisStreamEvent,
+  MealAnalysis,
+  analyzeMealDescription,
+  analyzeMealImages,
+  findCachedImageAnalysis,
+  validateAnalysisDescription,
+  validateAnalysisImages,
+} from "@/lib/analysis";
+import { RateLimitError, RateLimitResult, rateLimitHeaders } from "@/lib/rateLimit";
+import { enforceAnalysisRateLimit, getRateLimitKey } from "@/lib/rateLimit/analysisLimit";
 
 // Configure runtime to edge if possible, but Gemini SDK might need node
 export const runtime = 'nodejs'; 
 export const maxDuration = 60; // 60 seconds timeout
 
-const apiKey = process.env.GEMINI_API_KEY;
-const genAI = new GoogleGenerativeAI(apiKey || "");
+// Stuurt tussentijdse velden en het eindresultaat als losse JSON regels (NDJSON)
+function streamAnalysis(req: NextRequest, run: (options: AnalysisRunOptions) => Promise<MealAnalysis>, headers: Record<string, string>) {
+  const encoder = new TextEncoder();
+  const controller = new AbortController();
+  // Verbinding verbroken of geannuleerd door de gebruiker: stop ook de AI aanroep
+  req.signal.addEventListener("abort", () => controller.abort());
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(stream) {
+      const send = (event: AnalysisStreamEvent) => {
+        if (!controller.signal.aborted) stream.enqueue(encoder.encode(JSON.stringify(event) + "\n"));
+      };
+
+      try {
+        const result = await run({ signal: controller.signal, onPartial: (partial) => send({ type: "partial", partial }) });
+        send({ type: "result", result });
+      } catch (error: unknown) {
+        if (!controller.signal.aborted) console.error("API Route Stream Error:", error);
+        send({
+          type: "error",
+          error: error instanceof Error ? error.message : "Interne server fout",
+          status: error instanceof AnalysisError ? error.status : 500,
+          field: error instanceof AnalysisError ? error.field : undefined,
+        });
+      } finally {
+        if (!controller.signal.aborted) stream.close();
+      }
+    },
+    cancel() {
+      controller.abort();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      ...headers,
+      "Content-Type": "application/x-ndjson; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+    },
+  });
+}
 
 export async function POST(req: NextRequest) {
+  // Een lege of kapotte body is een fout van de client, geen 500 met de melding van de parser
+  const body = await req.json().catch(() => null);
+  if (!body || typeof body !== "object") {
+    return NextResponse.json({ error: "Ongeldig verzoek" }, { status: 400 });
+  }
+
+  let rateLimit: RateLimitResult | undefined;
   try {
-    const { imageBase64, mimeType } = await req.json();
+    const { images, imageBase64, mimeType, description, servings } = body;
 
-    if (!apiKey) {
-      return NextResponse.json({ error: "GEMINI_API_KEY is not set" }, { status: 500 });
-    }
+    // Zonder foto's analyseren we alleen de omschrijving; oudere clients sturen nog een enkele foto
+    const isTextOnly = !images && !imageBase64 && description;
+    const input: AnalysisImage[] = images ?? [{ data: imageBase64, mimeType }];
 
-    if (!imageBase64 || !mimeType) {
-      return NextResponse.json({ error: "Ongeldige invoer" }, { status: 400 });
-    }
+    // Eerst de invoer controleren: een ongeldig verzoek kost geen analyse van de limiet
+    if (isTextOnly) validateAnalysisDescription(description);
+    else validateAnalysisImages(input);
 
-    // Forced use of the specific model requested: gemini-2.5-flash-lite
-    // Note: If 2.5 is not available yet in public API, fallback to 2.0 or 1.5 might be needed
-    // Assuming user knows 2.5 is available or meant 1.5/2.0
-    const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash-exp" }); // Fallback to safe known model if 2.5 fails, or keep user's choice if valid
-
-    const prompt = `Analyseer deze afbeelding van een maaltijd. 
-    Als het GEEN maaltijd is, retourneer dan { "isFood": false }. 
-    Als het WEL een maaltijd is, retourneer dan een JSON object met de volgende velden in het Nederlands: 
-    { 
-      "isFood": true, 
-      "title": "Een korte, pakkende titel van het gerecht (max 6 woorden)",
-      "details": "Een gedetailleerde beschrijving van het gerecht", 
-      "ingredients": ["ingrediënt 1", "ingrediënt 2", "etc (alleen strings, geen objecten)"], 
-      "recipe": "stap-voor-stap bereidingswijze", 
-      "shoppingList": "een overzichtelijke boodschappenlijst voor 2 personen, gegroepeerd per afdeling van de Albert Heijn (bijv. Groenten, Zuivel, Houdbaar)",
-      "healthScore": "Een streng, realistisch cijfer tussen 1 en 10. Wees kritisch: 10 is alleen voor perfect uitgebalanceerde, supergezonde maaltijden met veel groenten en weinig bewerkte producten. Een pizza of patat is typisch 4-5, een standaard pasta 6-7." 
-    } 
-    Retourneer ALLEEN de JSON.`;
-
-    const imagePart = {
-      inlineData: {
-        data: imageBase64,
-        mimeType: mimeType,
-      },
-    };
-
-    const result = await model.generateContent([prompt, imagePart]);
-    const response = await result.response;
-    const text = response.text();
-
-    if (!text) {
-        return NextResponse.json({ error: "Lege reactie van AI" }, { status: 500 });
+    // Een cache hit telt niet mee voor de limiet; alleen de server vult de cache (zie findCachedImageAnalysis)
+    const cached = isTextOnly ? null : await findCachedImageAnalysis(input, servings);
+    if (cached) {
+      return req.headers.get("accept")?.includes("application/x-ndjson")
+        ? streamAnalysis(req, async () => cached, {})
+        : NextResponse.json(cached);
     }
 
-    const cleanText = text.replace(/```json\n?|\n?```/g, "").trim();
-    const jsonResult = JSON.parse(cleanText);
+    const idToken = req.headers.get("authorization")?.replace(/^Bearer\s+/i, "");
+    rateLimit = await enforceAnalysisRateLimit(await getRateLimitKey(req.headers, idToken));
+
+    const run = (options: AnalysisRunOptions = {}) => isTextOnly
+      ? analyzeMealDescription(description, servings, options)
+      : analyzeMealImages(input, servings, options);
+
+    if (req.headers.get("accept")?.includes("application/x-ndjson")) {
+      return streamAnalysis(req, run, rateLimitHeaders(rateLimit));
+    }
 
-    return NextResponse.json(jsonResult);
+    const result = await run();
+    return NextResponse.json(result, { headers: rateLimitHeaders(rateLimit) });
 
   } catch (error: unknown) {
+    if (error instanceof RateLimitError) {
+      return NextResponse.json(
+        { error: error.message, retryAfter: error.retryAfter },
+        { status: 429, headers: rateLimitHeaders(error.result) }
+      );
+    }
+
     console.error("API Route Error:", error);
     const errorMessage = error instanceof Error ? error.message : "Interne server fout";
+    const field = error instanceof AnalysisError ? error.field : undefined;
     return NextResponse.json(
-      { error: errorMessage },
-      { status: 500 }
+      { error: errorMessage, field },
+      { status: error instanceof AnalysisError ? error.status : 500, headers: rateLimit ? rateLimitHeaders(rateLimit) : undefined }
     );
   }
 }
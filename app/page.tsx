@@ -7,6 +7,7 @@ import AddMealForm from "@/components/AddMealForm";
 import MealFeed from "@/components/MealFeed";
 import ThemeToggle from "@/components/ThemeToggle";
 import UpdateNotification from "@/components/UpdateNotification";
+import BackupModal from "@/components/BackupModal";
 
 export const maxDuration = 25; // Verhoog timeout voor alle server acties op deze pagina
 
@@ -19,6 +20,7 @@ export default function Home() {
   const { user, loading, logout } = useAuth();
   const [feedRefreshTrigger, setFeedRefreshTrigger] = useState(0);
   const [isFormOpen, setIsFormOpen] = useState(false);
+  const [isBackupOpen, setIsBackupOpen] = useState(false);
 
   // PWA State
   const [deferredPrompt, setDeferredPrompt] = useState<BeforeInstallPromptEvent | null>(null);
@@ -113,6 +115,14 @@ export default function Home() {
               </div>
 
               <div className="flex items-center gap-2">
+                <button
+                  onClick={() => setIsBackupOpen(true)}
+                  className="flex items-center justify-center gap-2 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 px-3 py-2 rounded-xl text-sm font-bold border border-slate-200 dark:border-slate-700 hover:bg-slate-200 dark:hover:bg-slate-700 transition-all"
+                  title="Back-up maken of terugzetten"
+                >
+                  <span>💾</span>
+                  <span className="hidden sm:inline">Back-up</span>
+                </button>
                 <ThemeToggle />
                 <button
                   onClick={logout}
@@ -156,6 +166,13 @@ export default function Home() {
         </main>
       </div>
 
+      {isBackupOpen && (
+        <BackupModal
+          onClose={() => setIsBackupOpen(false)}
+          onImported={() => setFeedRefreshTrigger(prev => prev + 1)}
+        />
+      )}
+
       {/* PWA Install Modal for iOS */}
       {showInstallModal && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-in fade-in">
@@ -6,44 +6,78 @@ import { useAuth } from "@/context/AuthContext";
 import { db, storage } from "@/lib/firebase";
 import { collection, addDoc, serverTimestamp, query, where, getDocs } from "firebase/firestore";
 import { ref, uploadBytes, getDownloadURL } from "firebase/storage";
-import { analyzeMeal } from "@/app/actions";
+import { AnalysisActionResult, analyzeMeal, analyzeMealText } from "@/app/actions";
+import { Nutrition, NUTRITION_FIELDS, CONFIDENCE_LABELS } from "@/lib/nutrition";
+import type { AnalysisImage, AnalysisStreamEvent, MealAnalysis, PartialMealAnalysis } from "@/lib/analysis/types";
+import { MAX_MEAL_PHOTOS, Meal } from "@/lib/meals";
+import { createPlaceholderImage } from "@/lib/placeholderImage";
+import { DuplicateMatch, computeImageHash, fetchRecentMeals, matchDuplicates } from "@/lib/imageHash";
+import { PlannedMeal, markPlannedMealLogged } from "@/lib/planner";
+import { Allergen, DietLabel } from "@/lib/dietary";
+import DietaryChips from "./DietaryChips";
+import TagEditor, { MealTags } from "./TagEditor";
+import IngredientEditor from "./IngredientEditor";
+import MealModal from "./MealModal";
+import { DEFAULT_SERVINGS, SERVING_OPTIONS, scaleQuantities, servingsLabel } from "@/lib/servings";
+import { Ingredient, cleanIngredients, getIngredients, ingredientsToText, normalizeIngredients, scaleIngredients } from "@/lib/ingredients";
 import toast from "react-hot-toast";
 
-type IngredientObject = {
-  item?: string;
-  name?: string;
-  ingredient?: string;
-};
-
-type IngredientValue = string | IngredientObject | Record<string, unknown>;
-
-interface AIResult {
-  isFood: boolean;
-  title?: string;
-  details?: string;
-  ingredients?: IngredientValue[];
-  recipe?: string;
-  shoppingList?: string;
-  healthScore?: number;
+type AIResult = MealAnalysis;
+
+interface AnalysisRequest {
+  serverAction: (idToken?: string) => Promise<AnalysisActionResult>;
+  body: Record<string, unknown>;
+}
+
+const STREAM_INTERRUPTED_MESSAGE = "De verbinding werd verbroken voordat de analyse klaar was. Probeer het opnieuw.";
+
+// Voortgang tijdens het streamen: deze velden lichten op zodra de AI ze heeft ingevuld
+const STREAM_STEPS: { key: keyof PartialMealAnalysis; label: string }[] = [
+  { key: "title", label: "Titel" },
+  { key: "details", label: "Omschrijving" },
+  { key: "ingredients", label: "Ingrediënten" },
+  { key: "recipe", label: "Recept" },
+];
+
+interface AddMealFormProps {
+  onMealAdded: () => void;
+  onCancel?: () => void;
+  plannedMeal?: PlannedMeal; // vooraf invullen vanuit de weekplanner
 }
 
-export default function AddMealForm({ onMealAdded, onCancel }: { onMealAdded: () => void; onCancel?: () => void }) {
+export default function AddMealForm({ onMealAdded, onCancel, plannedMeal }: AddMealFormProps) {
   const { user } = useAuth();
-  const [imageFile, setImageFile] = useState<File | null>(null);
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
-  const [date, setDate] = useState(new Date().toISOString().split("T")[0]);
-  const [title, setTitle] = useState("");
+  const [imageFiles, setImageFiles] = useState<File[]>([]);
+  const [imagePreviews, setImagePreviews] = useState<string[]>([]);
+  const [imageHashes, setImageHashes] = useState<(string | null)[]>([]); // null als hashen mislukte
+  const [duplicates, setDuplicates] = useState<DuplicateMatch[]>([]);
+  const [duplicateAccepted, setDuplicateAccepted] = useState(false);
+  const [openedDuplicate, setOpenedDuplicate] = useState<Meal | null>(null);
+  const [date, setDate] = useState(plannedMeal?.date ?? new Date().toISOString().split("T")[0]);
+  const [title, setTitle] = useState(plannedMeal?.title ?? "");
   const [description, setDescription] = useState("");
-  const [ingredients, setIngredients] = useState("");
-  const [recipe, setRecipe] = useState("");
-  const [shoppingList, setShoppingList] = useState("");
+  const [ingredients, setIngredients] = useState<Ingredient[]>(() => plannedMeal ? getIngredients(plannedMeal) : []);
+  const [recipe, setRecipe] = useState(plannedMeal?.recipe ?? "");
+  const [shoppingList, setShoppingList] = useState(plannedMeal?.shoppingList ?? "");
   const [healthScore, setHealthScore] = useState<number>(5);
+  const [nutrition, setNutrition] = useState<Nutrition | null>(null);
+  const [textPrompt, setTextPrompt] = useState("");
+  const [servings, setServings] = useState<number>(plannedMeal?.servings ?? DEFAULT_SERVINGS);
+  const [allergens, setAllergens] = useState<Allergen[]>([]);
+  const [dietLabels, setDietLabels] = useState<DietLabel[]>([]);
+  const [mealTags, setMealTags] = useState<MealTags>({ mealType: null, cuisine: null, tags: [] });
   
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [retryAt, setRetryAt] = useState<number | null>(null); // analyse-limiet bereikt tot dit moment
+  const [now, setNow] = useState(() => Date.now());
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [aiResult, setAiResult] = useState<AIResult | null>(null);
+  const [streamedFields, setStreamedFields] = useState<PartialMealAnalysis>({});
+  const analysisAbortRef = useRef<AbortController | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const dropzoneRef = useRef<HTMLDivElement>(null);
+  const recentMealsRef = useRef<Promise<Meal[]> | null>(null); // één keer per formulier ophalen
+  const duplicateRequestRef = useRef(0); // volgnummer van de laatste duplicaatcontrole
 
   const compressImage = async (file: File): Promise<Blob> => {
     return new Promise((resolve, reject) => {
@@ -86,6 +120,33 @@ export default function AddMealForm({ onMealAdded, onCancel }: { onMealAdded: ()
     });
   };
 
+  const blobToBase64 = (blob: Blob): Promise<string> => {
+    return new Promise((resolve) => {
+      const reader = new FileReader();
+      reader.onloadend = () => resolve(reader.result as string);
+      reader.readAsDataURL(blob);
+    });
+  };
+
+  // Aftellen zolang de analyse-limiet actief is
+  useEffect(() => {
+    if (!retryAt) return;
+    const interval = window.setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= retryAt) setRetryAt(null);
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [retryAt]);
+
+  const waitSeconds = retryAt ? Math.max(Math.ceil((retryAt - now) / 1000), 0) : 0;
+  const waitLabel = `${Math.floor(waitSeconds / 60)}:${String(waitSeconds % 60).padStart(2, "0")}`;
+
+  // Lopende analyse afbreken als het formulier gesloten wordt
+  useEffect(() => {
+    return () => analysisAbortRef.current?.abort();
+  }, []);
+
   // Focus on dropzone when component mounts
   useEffect(() => {
     if (dropzoneRef.current) {
@@ -93,90 +154,191 @@ export default function AddMealForm({ onMealAdded, onCancel }: { onMealAdded: ()
     }
   }, []);
 
-  const handleImageChange = (e: ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      setImageFile(file);
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setImagePreview(reader.result as string);
-      };
-      reader.readAsDataURL(file);
+  const handleImageChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files ?? []);
+    e.target.value = ""; // zodat dezelfde foto opnieuw gekozen kan worden
+    if (selected.length === 0) return;
+
+    const room = MAX_MEAL_PHOTOS - imageFiles.length;
+    if (selected.length > room) {
+      toast.error(`Je kunt maximaal ${MAX_MEAL_PHOTOS} foto's per maaltijd toevoegen`);
     }
+    const files = selected.slice(0, Math.max(room, 0));
+    if (files.length === 0) return;
+
+    const [previews, hashes] = await Promise.all([
+      Promise.all(files.map(file => blobToBase64(file))),
+      Promise.all(files.map(hashImage)),
+    ]);
+    setImageFiles(prev => [...prev, ...files]);
+    setImagePreviews(prev => [...prev, ...previews]);
+    setImageHashes(prev => [...prev, ...hashes]);
+    setDuplicateAccepted(false);
   };
 
-  const triggerAnalyze = async () => {
-    if (!imageFile) return;
+  const removeImage = (index: number) => {
+    setImageFiles(prev => prev.filter((_, i) => i !== index));
+    setImagePreviews(prev => prev.filter((_, i) => i !== index));
+    setImageHashes(prev => prev.filter((_, i) => i !== index));
+  };
+
+  // Hash van de gecomprimeerde foto, precies zoals die straks geüpload wordt
+  const hashImage = async (file: File): Promise<string | null> => {
+    try {
+      return await computeImageHash(await compressImage(file));
+    } catch (error) {
+      console.error("Error hashing image:", error);
+      return null;
+    }
+  };
+
+  // Vergelijken met recente maaltijden zodra de foto's wijzigen; als dat niet lukt gewoon doorgaan zonder waarschuwing.
+  // Alleen het antwoord voor de laatste set foto's telt: een trager eerder antwoord wordt genegeerd.
+  useEffect(() => {
+    const request = ++duplicateRequestRef.current;
+    const valid = imageHashes.filter((hash): hash is string => !!hash);
+
+    const check = async (): Promise<DuplicateMatch[] | null> => {
+      if (valid.length === 0) return [];
+      try {
+        recentMealsRef.current ??= fetchRecentMeals();
+        return matchDuplicates(valid, await recentMealsRef.current);
+      } catch (error) {
+        console.error("Error checking duplicates:", error);
+        recentMealsRef.current = null;
+        return null;
+      }
+    };
+
+    check().then(matches => {
+      if (matches && request === duplicateRequestRef.current) setDuplicates(matches);
+    });
+  }, [imageHashes]);
+
+  // Velden invullen zodra de AI ze tijdens het streamen heeft gegenereerd
+  const applyPartial = (partial: PartialMealAnalysis) => {
+    if (partial.title) setTitle(partial.title);
+    if (partial.details) setDescription(partial.details);
+    if (partial.ingredients?.length) setIngredients(partial.ingredients);
+    if (partial.recipe) setRecipe(partial.recipe);
+    setStreamedFields(partial);
+  };
+
+  // Leest de NDJSON stream van /api/analyze; null als de route niet beschikbaar is
+  const streamAnalysis = async (body: Record<string, unknown>, idToken: string | undefined, signal: AbortSignal): Promise<AIResult | null> => {
+    const response = await fetch("/api/analyze", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/x-ndjson",
+        ...(idToken ? { Authorization: `Bearer ${idToken}` } : {}),
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (response.status === 404 || response.status === 405) return null;
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      if (response.status === 429) {
+        const retryAfter = Number(response.headers.get("Retry-After") ?? errorData.retryAfter ?? 60);
+        setRetryAt(Date.now() + retryAfter * 1000);
+      }
+      throw new Error(errorData.error || "Analyse mislukt");
+    }
+
+    if (!response.body) return null;
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = "";
+    while (true) {
+      let chunk: ReadableStreamReadResult<string>;
+      try {
+        chunk = await reader.read();
+      } catch (readError: unknown) {
+        // De server is al begonnen en heeft de analyse dus al geteld: geen TypeError doorgeven,
+        // anders probeert runAnalysis de server action en kost het een tweede analyse
+        if (signal.aborted || !(readError instanceof TypeError)) throw readError;
+        throw new Error(STREAM_INTERRUPTED_MESSAGE);
+      }
+      const { done, value } = chunk;
+      buffer += value ?? "";
+      const lines = buffer.split("\n");
+      buffer = done ? "" : lines.pop() ?? "";
+
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        const event = JSON.parse(line) as AnalysisStreamEvent;
+        if (event.type === "partial") applyPartial(event.partial);
+        if (event.type === "result") return event.result;
+        if (event.type === "error") throw new Error(event.error);
+      }
+      if (done) break;
+    }
+    throw new Error(STREAM_INTERRUPTED_MESSAGE);
+  };
+
+  // Gedeeld door foto- en tekstanalyse: streamen via /api/analyze met de server action als fallback
+  const runAnalysis = async (prepare: () => Promise<AnalysisRequest>) => {
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
     setIsAnalyzing(true);
     setAiResult(null);
+    setStreamedFields({});
     try {
-      // Comprimeer de foto voordat we deze naar de AI sturen
-      const compressedBlob = await compressImage(imageFile);
+      const { serverAction, body } = await prepare();
+      // Met het ID token telt de limiet per gebruiker in plaats van per IP
+      const idToken = await user?.getIdToken();
       
-      // Convert Blob naar Base64 voor de server action
-      const reader = new FileReader();
-      const base64Promise = new Promise<string>((resolve) => {
-        reader.onloadend = () => resolve(reader.result as string);
-        reader.readAsDataURL(compressedBlob);
-      });
-      const compressedBase64 = await base64Promise;
-      
-      const base64Data = compressedBase64.split(",")[1];
-      const mimeType = "image/jpeg"; // compressImage levert altijd JPEG
-      
-      let result: AIResult;
+      let result: AIResult | null = null;
       try {
-        // Eerst proberen via Server Action
-        result = (await analyzeMeal(base64Data, mimeType)) as AIResult;
-      } catch (serverActionError: unknown) {
-        console.warn("Server Action failed, trying API fallback...", serverActionError);
-        const errorMsg = serverActionError instanceof Error ? serverActionError.message : String(serverActionError);
-        
-        // Als het een 'not found' error is of iets anders ernstigs, probeer fallback
-        if (errorMsg.includes("not found") || errorMsg.includes("Server Action") || errorMsg.includes("fetch")) {
-           const response = await fetch("/api/analyze", {
-             method: "POST",
-             headers: { "Content-Type": "application/json" },
-             body: JSON.stringify({ imageBase64: base64Data, mimeType }),
-           });
-           
-           if (!response.ok) {
-             const errorData = await response.json();
-             throw new Error(errorData.error || "API fallback failed");
-           }
-           result = (await response.json()) as AIResult;
-        } else {
-          throw serverActionError;
+        result = await streamAnalysis(body, idToken, controller.signal);
+      } catch (streamError: unknown) {
+        // Alleen als het verzoek de server niet bereikte de server action proberen; fouten van de analyse zelf tonen we direct
+        if (controller.signal.aborted || !(streamError instanceof TypeError)) throw streamError;
+        console.warn("Streaming analysis failed, trying Server Action...", streamError);
+      }
+
+      if (!result) {
+        const actionResult = await serverAction(idToken);
+        // Een server action kan niet halverwege stoppen, maar het resultaat negeren kan wel
+        if (controller.signal.aborted) throw new DOMException("Aborted", "AbortError");
+        if ("error" in actionResult) {
+          setRetryAt(Date.now() + actionResult.retryAfter * 1000);
+          throw new Error(actionResult.error);
         }
+        result = actionResult.result;
       }
       
       if (!result.isFood) {
         toast.error("AI denkt dat dit geen maaltijd is.");
       } else {
         setAiResult(result);
-        if (result.title) setTitle(result.title);
+        // Het resultaat is server-side al tegen het schema gevalideerd
+        setTitle(result.title);
         if (result.details) setDescription(result.details);
-        
-        // Populate new fields
-        if (result.ingredients && Array.isArray(result.ingredients)) {
-          // Handle both string arrays and object arrays (if AI decides to be fancy)
-          const cleanIngredients = result.ingredients.map((ing) => {
-             if (typeof ing === "string") return ing;
-             if (typeof ing === "object" && ing !== null) {
-               const ingredientObject = ing as IngredientObject;
-               return ingredientObject.item || ingredientObject.name || ingredientObject.ingredient || JSON.stringify(ing);
-             }
-             return String(ing);
-          });
-          setIngredients(cleanIngredients.join("\n"));
-        }
+        // Resultaten uit de cache van vóór de ingrediënt-records bevatten nog strings
+        if (result.ingredients.length) setIngredients(normalizeIngredients(result.ingredients));
         if (result.recipe) setRecipe(result.recipe);
         if (result.shoppingList) setShoppingList(result.shoppingList);
-        if (result.healthScore) setHealthScore(result.healthScore);
+        setServings(result.servings);
+        setHealthScore(result.healthScore);
+        setNutrition(result.nutrition ?? null);
+        setAllergens(result.allergens);
+        setDietLabels(result.dietLabels);
+        setMealTags({ mealType: result.mealType ?? null, cuisine: result.cuisine ?? null, tags: result.tags ?? [] });
         
-        toast.success("Analyse voltooid en velden ingevuld!");
+        toast.success(result.cachedAt
+          ? "Deze foto's waren al geanalyseerd: velden ingevuld zonder nieuwe AI analyse"
+          : "Analyse voltooid en velden ingevuld!");
       }
     } catch (error: unknown) {
+      if (controller.signal.aborted) {
+        toast("Analyse geannuleerd. Wat al was ingevuld kun je aanpassen.", { icon: "⏹️" });
+        return;
+      }
+
       console.error(error);
       const errorMessage = error instanceof Error ? error.message : "Analyse mislukt";
       
@@ -191,14 +353,64 @@ export default function AddMealForm({ onMealAdded, onCancel }: { onMealAdded: ()
       
       toast.error(errorMessage);
     } finally {
+      if (analysisAbortRef.current === controller) analysisAbortRef.current = null;
       setIsAnalyzing(false);
     }
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!user || !imageFile) {
-      toast.error("Selecteer eerst een foto");
+  const cancelAnalysis = () => {
+    analysisAbortRef.current?.abort();
+  };
+
+  // Bestaande hoeveelheden meeschalen als het aantal personen wijzigt
+  const handleServingsChange = (newServings: number) => {
+    setIngredients(prev => scaleIngredients(prev, servings, newServings));
+    setShoppingList(prev => scaleQuantities(prev, servings, newServings).substring(0, 1500));
+    setServings(newServings);
+  };
+
+  const triggerAnalyze = async () => {
+    if (imageFiles.length === 0) return;
+    await runAnalysis(async () => {
+      // Comprimeer de foto's voordat we ze naar de AI sturen
+      const images: AnalysisImage[] = [];
+      for (const file of imageFiles) {
+        const compressedBlob = await compressImage(file);
+        // Convert Blob naar Base64 voor de server action
+        const compressedBase64 = await blobToBase64(compressedBlob);
+        images.push({
+          data: compressedBase64.split(",")[1],
+          mimeType: "image/jpeg", // compressImage levert altijd JPEG
+        });
+      }
+      return {
+        serverAction: (idToken) => analyzeMeal(images, { servings, idToken }),
+        body: { images, servings },
+      };
+    });
+  };
+
+  const triggerTextAnalyze = async () => {
+    const mealText = textPrompt.trim();
+    if (mealText.length < 3) {
+      toast.error("Beschrijf eerst wat je gegeten hebt");
+      return;
+    }
+    await runAnalysis(async () => ({
+      serverAction: (idToken) => analyzeMealText(mealText, { servings, idToken }),
+      body: { description: mealText, servings },
+    }));
+  };
+
+  const handleSubmit = async (e?: React.FormEvent, allowDuplicate = duplicateAccepted) => {
+    e?.preventDefault();
+    if (!user) {
+      toast.error("Je bent niet ingelogd");
+      return;
+    }
+
+    if (duplicates.length > 0 && !allowDuplicate) {
+      toast.error("Deze foto lijkt al opgeslagen te zijn. Bekijk de bestaande maaltijd of kies 'Toch opslaan'.");
       return;
     }
 
@@ -230,7 +442,7 @@ export default function AddMealForm({ onMealAdded, onCancel }: { onMealAdded: ()
     // Basic sanitization and validation
     const cleanTitle = title.trim().substring(0, 100);
     const cleanDescription = description.trim().substring(0, 500);
-    const cleanIngredients = ingredients.trim().substring(0, 1000);
+    const ingredientList = cleanIngredients(ingredients);
     const cleanRecipe = recipe.trim().substring(0, 2000);
     const cleanShoppingList = shoppingList.trim().substring(0, 1500);
 
@@ -241,35 +453,71 @@ export default function AddMealForm({ onMealAdded, onCancel }: { onMealAdded: ()
     
     setIsSubmitting(true);
     try {
-      const compressedBlob = await compressImage(imageFile);
-      const storageRef = ref(storage, `meals/${user.uid}/${Date.now()}_${imageFile.name.split('.')[0].replace(/[^a-z0-9]/gi, '_').toLowerCase()}.jpg`);
-      await uploadBytes(storageRef, compressedBlob);
-      const imageUrl = await getDownloadURL(storageRef);
+      const imageUrls: string[] = [];
+      for (const [index, file] of imageFiles.entries()) {
+        const compressedBlob = await compressImage(file);
+        const storageRef = ref(storage, `meals/${user.uid}/${Date.now()}_${index}_${file.name.split('.')[0].replace(/[^a-z0-9]/gi, '_').toLowerCase()}.jpg`);
+        await uploadBytes(storageRef, compressedBlob);
+        imageUrls.push(await getDownloadURL(storageRef));
+      }
+
+      // Maaltijd zonder foto: sla een gegenereerde placeholder op
+      const isPlaceholderImage = imageUrls.length === 0;
+      if (isPlaceholderImage) {
+        const placeholderBlob = await createPlaceholderImage(cleanTitle);
+        const storageRef = ref(storage, `meals/${user.uid}/${Date.now()}_placeholder.jpg`);
+        await uploadBytes(storageRef, placeholderBlob);
+        imageUrls.push(await getDownloadURL(storageRef));
+      }
 
-      await addDoc(collection(db, "meals"), {
+      const mealRef = await addDoc(collection(db, "meals"), {
         userId: user.uid,
         userName: user.displayName || user.email?.split('@')[0],
         userEmail: user.email,
-        imageUrl,
+        imageUrl: imageUrls[0],
+        imageUrls,
+        imageHashes: isPlaceholderImage ? [] : imageHashes.filter((hash): hash is string => !!hash),
+        isPlaceholderImage,
         title: cleanTitle,
         description: cleanDescription,
-        ingredients: cleanIngredients,
+        ingredients: ingredientsToText(ingredientList),
+        ingredientList,
         recipe: cleanRecipe,
         shoppingList: cleanShoppingList,
+        servings,
         healthScore: Number(healthScore),
+        nutrition,
+        allergens,
+        dietLabels,
+        ...mealTags,
         date,
         createdAt: serverTimestamp(),
       });
 
+      if (plannedMeal) {
+        // De maaltijd staat er al; een mislukte koppeling met de planning is niet erg genoeg om te melden
+        await markPlannedMealLogged(plannedMeal.id, mealRef.id).catch(error => console.error("Error linking planned meal:", error));
+      }
+
       toast.success("Maaltijd opgeslagen!");
-      setImageFile(null);
-      setImagePreview(null);
+      setImageFiles([]);
+      setImagePreviews([]);
+      setImageHashes([]);
+      setDuplicates([]);
+      setDuplicateAccepted(false);
+      recentMealsRef.current = null; // de net opgeslagen maaltijd hoort er de volgende keer bij
+      setTextPrompt("");
+      setServings(DEFAULT_SERVINGS);
       setTitle("");
       setDescription("");
-      setIngredients("");
+      setIngredients([]);
       setRecipe("");
       setShoppingList("");
       setHealthScore(5);
+      setNutrition(null);
+      setAllergens([]);
+      setDietLabels([]);
+      setMealTags({ mealType: null, cuisine: null, tags: [] });
       setAiResult(null);
       onMealAdded();
     } catch (error) {
@@ -286,7 +534,7 @@ export default function AddMealForm({ onMealAdded, onCancel }: { onMealAdded: ()
         {/* Left Column: Image & Analysis */}
         <div className="w-full md:w-1/3 flex flex-col gap-4">
           <h3 className="text-xl font-bold flex items-center gap-2 md:hidden">
-            <span className="text-blue-500">📸</span> Nieuwe Maaltijd
+            <span className="text-blue-500">📸</span> {plannedMeal ? "Geplande maaltijd loggen" : "Nieuwe Maaltijd"}
           </h3>
           
           <div 
@@ -300,20 +548,22 @@ export default function AddMealForm({ onMealAdded, onCancel }: { onMealAdded: ()
               }
             }}
             className={`relative aspect-square rounded-2xl border-2 border-dashed flex flex-col items-center justify-center cursor-pointer overflow-hidden transition-all shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500
-              ${imagePreview ? 'border-transparent' : 'border-slate-300 dark:border-slate-700 hover:border-blue-500 dark:hover:border-blue-400 bg-slate-50 dark:bg-slate-900/50'}`}
+              ${imagePreviews.length > 0 ? 'border-transparent' : 'border-slate-300 dark:border-slate-700 hover:border-blue-500 dark:hover:border-blue-400 bg-slate-50 dark:bg-slate-900/50'}`}
           >
-            {imagePreview ? (
+            {imagePreviews.length > 0 ? (
               <>
-                <NextImage src={imagePreview} alt="Preview" fill sizes="100vw" className="object-cover" unoptimized />
+                <NextImage src={imagePreviews[0]} alt="Preview" fill sizes="100vw" className="object-cover" unoptimized />
                 <div className="absolute inset-0 bg-black/40 opacity-0 hover:opacity-100 flex items-center justify-center transition-opacity">
-                  <p className="text-white font-medium">Klik om te wijzigen</p>
+                  <p className="text-white font-medium">
+                    {imageFiles.length < MAX_MEAL_PHOTOS ? "Klik om een foto toe te voegen" : `Maximaal ${MAX_MEAL_PHOTOS} foto's`}
+                  </p>
                 </div>
               </>
             ) : (
               <div className="text-center p-4">
                 <div className="text-5xl mb-3">📷</div>
-                <p className="font-medium text-lg">Foto toevoegen</p>
-                <p className="text-sm text-slate-400 dark:text-slate-500 mt-1">Klik of sleep</p>
+                <p className="font-medium text-lg">Foto&apos;s toevoegen</p>
+                <p className="text-sm text-slate-400 dark:text-slate-500 mt-1">Klik of sleep (max. {MAX_MEAL_PHOTOS})</p>
               </div>
             )}
             <input 
@@ -321,30 +571,159 @@ export default function AddMealForm({ onMealAdded, onCancel }: { onMealAdded: ()
               ref={fileInputRef} 
               onChange={handleImageChange} 
               accept="image/*" 
+              multiple
+              disabled={imageFiles.length >= MAX_MEAL_PHOTOS}
               className="hidden" 
             />
           </div>
 
-          {imagePreview && (
+          {imagePreviews.length > 0 && (
+            <div className="grid grid-cols-4 gap-2">
+              {imagePreviews.map((preview, index) => (
+                <div key={index} className="relative aspect-square rounded-xl overflow-hidden border border-slate-200 dark:border-slate-700">
+                  <NextImage src={preview} alt={`Foto ${index + 1}`} fill sizes="25vw" className="object-cover" unoptimized />
+                  <button
+                    type="button"
+                    onClick={() => removeImage(index)}
+                    className="absolute top-1 right-1 bg-black/60 hover:bg-black/80 text-white h-6 w-6 rounded-full text-xs font-bold flex items-center justify-center"
+                    title="Foto verwijderen"
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {duplicates.length > 0 && !duplicateAccepted && (
+            <div className="rounded-2xl border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20 p-4 space-y-3 animate-in fade-in">
+              <div>
+                <p className="text-sm font-bold text-amber-800 dark:text-amber-300">⚠️ Deze foto lijkt al opgeslagen te zijn</p>
+                <p className="text-xs text-amber-700/80 dark:text-amber-300/70">Misschien vanaf een andere telefoon, of na een mislukte poging.</p>
+              </div>
+              <div className="space-y-2">
+                {duplicates.slice(0, 3).map(({ meal }) => (
+                  <button
+                    key={meal.id}
+                    type="button"
+                    onClick={() => setOpenedDuplicate(meal)}
+                    className="w-full flex items-center gap-3 text-left rounded-xl p-1.5 bg-white/70 dark:bg-slate-900/50 hover:bg-white dark:hover:bg-slate-900 transition-all"
+                  >
+                    <div className="relative h-10 w-10 rounded-lg overflow-hidden bg-slate-100 dark:bg-slate-800 shrink-0">
+                      <NextImage src={meal.imageUrl} alt={meal.title} fill sizes="40px" className="object-cover" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-bold truncate">{meal.title}</p>
+                      <p className="text-[11px] text-slate-400">{meal.date} • {meal.userEmail.split("@")[0]}</p>
+                    </div>
+                    <span className="text-xs font-bold text-blue-600 dark:text-blue-400 shrink-0">Bekijk</span>
+                  </button>
+                ))}
+              </div>
+              <button
+                type="button"
+                onClick={() => {
+                  setDuplicateAccepted(true);
+                  // Is het formulier al ingevuld, dan meteen opslaan; anders alleen de waarschuwing wegklikken
+                  if (title.trim()) handleSubmit(undefined, true);
+                }}
+                disabled={isSubmitting}
+                className="w-full py-2 rounded-xl text-sm font-bold bg-amber-100 dark:bg-amber-900/40 text-amber-800 dark:text-amber-200 hover:bg-amber-200 dark:hover:bg-amber-900/60 transition-all disabled:opacity-50"
+              >
+                Toch opslaan
+              </button>
+            </div>
+          )}
+
+          <div>
+            <label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider ml-1">Aantal personen</label>
+            <div className="flex bg-slate-100 dark:bg-slate-800/50 p-1 rounded-xl mt-1">
+              {SERVING_OPTIONS.map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => handleServingsChange(option)}
+                  className={`flex-1 py-1.5 rounded-lg text-sm font-bold transition-all ${servings === option ? "bg-white dark:bg-slate-700 shadow-sm text-blue-600 dark:text-blue-400" : "text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200"}`}
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {imagePreviews.length > 0 && (
             <button
               type="button"
               onClick={triggerAnalyze}
-              disabled={isAnalyzing}
+              disabled={isAnalyzing || waitSeconds > 0}
               className="w-full py-3 px-4 bg-gradient-to-r from-blue-600 to-indigo-600 text-white rounded-xl font-bold shadow-lg shadow-blue-200 dark:shadow-blue-900/20 hover:shadow-xl hover:scale-[1.02] transition-all disabled:opacity-50 flex items-center justify-center gap-2"
             >
               {isAnalyzing ? (
                 <><div className="animate-spin h-4 w-4 border-2 border-white border-t-transparent rounded-full" /> AI Analyseert...</>
+              ) : waitSeconds > 0 ? (
+                <><span className="text-lg">⏳</span> Limiet bereikt, wacht {waitLabel}</>
               ) : (
                 <><span className="text-lg">✨</span> AI Analyse</>
               )}
             </button>
           )}
 
+          {imagePreviews.length === 0 && (
+            <div className="space-y-2">
+              <label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider ml-1">Geen foto? Beschrijf je maaltijd</label>
+              <textarea
+                placeholder="Bijv: pasta pesto met kip en spinazie"
+                value={textPrompt}
+                onChange={(e) => setTextPrompt(e.target.value.substring(0, 500))}
+                className="input-field min-h-[70px] text-sm"
+                rows={2}
+                maxLength={500}
+              />
+              <button
+                type="button"
+                onClick={triggerTextAnalyze}
+                disabled={isAnalyzing || waitSeconds > 0 || textPrompt.trim().length < 3}
+                className="w-full py-3 px-4 bg-gradient-to-r from-blue-600 to-indigo-600 text-white rounded-xl font-bold shadow-lg shadow-blue-200 dark:shadow-blue-900/20 hover:shadow-xl hover:scale-[1.02] transition-all disabled:opacity-50 flex items-center justify-center gap-2"
+              >
+                {isAnalyzing ? (
+                  <><div className="animate-spin h-4 w-4 border-2 border-white border-t-transparent rounded-full" /> AI Analyseert...</>
+                ) : waitSeconds > 0 ? (
+                  <><span className="text-lg">⏳</span> Limiet bereikt, wacht {waitLabel}</>
+                ) : (
+                  <><span className="text-lg">✨</span> Analyseer omschrijving</>
+                )}
+              </button>
+            </div>
+          )}
+
+          {isAnalyzing && (
+            <div className="bg-slate-50 dark:bg-slate-800/50 border border-slate-200 dark:border-slate-700 rounded-xl p-3 space-y-2 animate-in fade-in">
+              <div className="flex flex-wrap gap-1.5">
+                {STREAM_STEPS.map(step => (
+                  <span
+                    key={step.key}
+                    className={`px-2 py-0.5 rounded-full text-xs font-medium transition-colors ${streamedFields[step.key] ? "bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300" : "bg-slate-200 dark:bg-slate-700 text-slate-500 dark:text-slate-400"}`}
+                  >
+                    {streamedFields[step.key] ? "✓" : "…"} {step.label}
+                  </span>
+                ))}
+              </div>
+              <button
+                type="button"
+                onClick={cancelAnalysis}
+                className="w-full py-2 text-sm font-medium text-slate-600 dark:text-slate-300 hover:text-red-600 dark:hover:text-red-400 transition-colors"
+              >
+                ⏹️ Analyse annuleren
+              </button>
+            </div>
+          )}
+
           {/* Helper info */}
           <div className="text-xs text-slate-400 dark:text-slate-500 px-2">
             <p>Tips:</p>
             <ul className="list-disc ml-4 space-y-1 mt-1">
               <li>Upload een duidelijke foto</li>
+              <li>Voeg eventueel een close-up of de ingrediënten toe</li>
               <li>Laat AI de velden invullen</li>
               <li>Controleer en pas aan waar nodig</li>
             </ul>
@@ -355,13 +734,20 @@ export default function AddMealForm({ onMealAdded, onCancel }: { onMealAdded: ()
         <div className="w-full md:w-2/3 space-y-5">
           <div className="hidden md:flex items-center justify-between mb-2">
             <h3 className="text-2xl font-bold flex items-center gap-2">
-              <span className="text-blue-500">📸</span> Nieuwe Maaltijd
+              <span className="text-blue-500">📸</span> {plannedMeal ? "Geplande maaltijd loggen" : "Nieuwe Maaltijd"}
             </h3>
-            {aiResult && (
+            {aiResult && (aiResult.cachedAt ? (
+               <span
+                 className="bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300 px-3 py-1 rounded-full text-sm font-medium animate-in fade-in"
+                 title={`Geanalyseerd op ${new Date(aiResult.cachedAt).toLocaleString("nl-NL")}`}
+               >
+                 ♻️ Eerdere analyse gebruikt
+               </span>
+            ) : (
                <span className="bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300 px-3 py-1 rounded-full text-sm font-medium animate-in fade-in">
                  ✨ AI gegevens geladen
                </span>
-            )}
+            ))}
           </div>
 
           <form onSubmit={handleSubmit} className="space-y-5">
@@ -403,34 +789,27 @@ export default function AddMealForm({ onMealAdded, onCancel }: { onMealAdded: ()
               />
             </div>
 
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
-              <div>
-                <label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider ml-1">Ingrediënten</label>
-                <textarea 
-                  placeholder="- Aardappelen&#10;- Boerenkool&#10;- Rookworst"
-                  value={ingredients}
-                  onChange={(e) => setIngredients(e.target.value.substring(0, 1000))}
-                  className="input-field mt-1 min-h-[120px] font-mono text-sm"
-                  rows={5}
-                  maxLength={1000}
-                />
-              </div>
-              
-              <div>
-                 <label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider ml-1">Recept / Bereiding</label>
-                <textarea 
-                  placeholder="1. Kook de aardappelen...&#10;2. Bak de spekjes..."
-                  value={recipe}
-                  onChange={(e) => setRecipe(e.target.value.substring(0, 2000))}
-                  className="input-field mt-1 min-h-[120px]"
-                  rows={5}
-                  maxLength={2000}
-                />
+            <div>
+              <label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider ml-1">Ingrediënten ({servingsLabel(servings)})</label>
+              <div className="mt-1">
+                <IngredientEditor ingredients={ingredients} onChange={setIngredients} />
               </div>
             </div>
 
             <div>
-              <label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider ml-1">Boodschappenlijst (AH - 2 personen)</label>
+              <label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider ml-1">Recept / Bereiding</label>
+              <textarea 
+                placeholder="1. Kook de aardappelen...&#10;2. Bak de spekjes..."
+                value={recipe}
+                onChange={(e) => setRecipe(e.target.value.substring(0, 2000))}
+                className="input-field mt-1 min-h-[120px]"
+                rows={5}
+                maxLength={2000}
+              />
+            </div>
+
+            <div>
+              <label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider ml-1">Boodschappenlijst (AH - {servingsLabel(servings)})</label>
               <textarea 
                 placeholder="Groenten:&#10;- 500g Aardappelen&#10;&#10;Vlees:&#10;- 1 Rookworst"
                 value={shoppingList}
@@ -441,6 +820,51 @@ export default function AddMealForm({ onMealAdded, onCancel }: { onMealAdded: ()
               />
             </div>
 
+            {nutrition && (
+              <div>
+                <label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider ml-1">
+                  Voedingswaarden per portie <span className="normal-case font-medium">({CONFIDENCE_LABELS[nutrition.confidence]})</span>
+                </label>
+                <div className="grid grid-cols-3 md:grid-cols-6 gap-2 mt-1">
+                  {NUTRITION_FIELDS.map(field => (
+                    <div key={field.key}>
+                      <span className="text-[10px] text-slate-400 font-bold uppercase tracking-wider ml-1">{field.label} ({field.unit})</span>
+                      <input
+                        type="number"
+                        min="0"
+                        max={field.max}
+                        step="any"
+                        value={nutrition[field.key]}
+                        onChange={(e) => setNutrition({ ...nutrition, [field.key]: Math.min(Math.max(Number(e.target.value), 0), field.max) })}
+                        className="input-field w-full text-sm"
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div>
+              <label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider ml-1">Dieet &amp; allergenen</label>
+              <div className="mt-1">
+                <DietaryChips
+                  allergens={allergens}
+                  dietLabels={dietLabels}
+                  onChange={(value) => {
+                    setAllergens(value.allergens);
+                    setDietLabels(value.dietLabels);
+                  }}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider ml-1">Soort, keuken &amp; tags</label>
+              <div className="mt-1">
+                <TagEditor {...mealTags} onChange={setMealTags} />
+              </div>
+            </div>
+
             <div className="flex flex-col md:flex-row md:items-center gap-6">
               <div className="flex-1 space-y-3">
                 <div className="flex justify-between items-center">
@@ -492,7 +916,7 @@ export default function AddMealForm({ onMealAdded, onCancel }: { onMealAdded: ()
                   )}
                   <button
                     type="submit"
-                    disabled={isSubmitting || !imageFile}
+                    disabled={isSubmitting}
                     className="flex-[2] py-4 px-6 bg-blue-600 text-white rounded-xl font-bold shadow-lg shadow-blue-200 dark:shadow-blue-900/20 hover:bg-blue-700 hover:shadow-xl hover:scale-[1.02] transition-all disabled:opacity-50 flex items-center justify-center gap-2"
                   >
                     {isSubmitting ? (
@@ -507,6 +931,22 @@ export default function AddMealForm({ onMealAdded, onCancel }: { onMealAdded: ()
           </form>
         </div>
       </div>
+
+      {openedDuplicate && (
+        <MealModal
+          key={openedDuplicate.id}
+          meal={openedDuplicate}
+          onClose={() => setOpenedDuplicate(null)}
+          onDelete={(id) => {
+            setDuplicates(prev => prev.filter(match => match.meal.id !== id));
+            setOpenedDuplicate(null);
+          }}
+          onUpdate={(updatedMeal) => {
+            setDuplicates(prev => prev.map(match => match.meal.id === updatedMeal.id ? { ...match, meal: updatedMeal } : match));
+            setOpenedDuplicate(updatedMeal);
+          }}
+        />
+      )}
     </div>
   );
 }
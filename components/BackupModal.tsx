@@ -0,0 +1,137 @@
+"use client";
+
+import { useRef, useState } from "react";
+import toast from "react-hot-toast";
+import { useAuth } from "@/context/AuthContext";
+import { BackupProgress, ImportResult, exportBackup, importBackup } from "@/lib/backup";
+import { toDateKey } from "@/lib/dateRange";
+
+interface BackupModalProps {
+  onClose: () => void;
+  onImported: () => void;
+}
+
+export default function BackupModal({ onClose, onImported }: BackupModalProps) {
+  const { user } = useAuth();
+  const [busy, setBusy] = useState<"export" | "import" | null>(null);
+  const [progress, setProgress] = useState<BackupProgress | null>(null);
+  const [importResult, setImportResult] = useState<ImportResult | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = async () => {
+    if (!user) return;
+    setBusy("export");
+    setProgress(null);
+    try {
+      const { blob, missingPhotos } = await exportBackup(user.email ?? user.uid, setProgress);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `maaltijdplus-backup-${toDateKey(new Date())}.zip`;
+      link.click();
+      // Direct intrekken kan de download in Safari en Firefox afbreken
+      setTimeout(() => URL.revokeObjectURL(url), 60 * 1000);
+      if (missingPhotos > 0) {
+        toast.error(`Back-up gedownload, maar ${missingPhotos} foto${missingPhotos === 1 ? "" : "'s"} konden niet worden opgehaald`);
+      } else {
+        toast.success("Back-up gedownload!");
+      }
+    } catch (error) {
+      console.error("Error exporting backup:", error);
+      toast.error("Back-up maken mislukt");
+    } finally {
+      setBusy(null);
+      setProgress(null);
+    }
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!user || !file) return;
+    setBusy("import");
+    setProgress(null);
+    setImportResult(null);
+    try {
+      const result = await importBackup(file, user.uid, setProgress);
+      setImportResult(result);
+      if (result.imported > 0) onImported();
+      toast.success(`${result.imported} maaltijd${result.imported === 1 ? "" : "en"} teruggezet`);
+    } catch (error) {
+      console.error("Error importing backup:", error);
+      toast.error(error instanceof Error ? error.message : "Terugzetten mislukt");
+    } finally {
+      setBusy(null);
+      setProgress(null);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 sm:p-6">
+      <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm" onClick={busy ? undefined : onClose}></div>
+
+      <div className="relative bg-white dark:bg-slate-900 w-full max-w-lg rounded-3xl shadow-2xl p-6 sm:p-8 space-y-6 animate-in zoom-in-95 duration-200">
+        <div className="flex items-start justify-between gap-4">
+          <h3 className="text-xl font-bold">💾 Back-up</h3>
+          <button
+            onClick={onClose}
+            disabled={!!busy}
+            className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 disabled:opacity-40"
+          >
+            ✕
+          </button>
+        </div>
+
+        <section className="space-y-2">
+          <h4 className="font-bold">Exporteren</h4>
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            Een ZIP met alle maaltijden als JSON, een CSV-overzicht voor Excel en de originele foto&apos;s.
+          </p>
+          <button onClick={handleExport} disabled={!!busy} className="btn-primary !py-2 !px-4 text-sm disabled:opacity-50">
+            {busy === "export" ? "Bezig met exporteren..." : "📦 Download back-up"}
+          </button>
+        </section>
+
+        <section className="space-y-2 pt-6 border-t border-slate-100 dark:border-slate-800">
+          <h4 className="font-bold">Terugzetten</h4>
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            Zet een back-up terug in deze omgeving. Maaltijden die er al zijn worden overgeslagen. Alle teruggezette maaltijden komen op jouw account, zodat je ze kunt bewerken; wie ze gegeten heeft blijft zichtbaar.
+          </p>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".zip,application/zip"
+            onChange={(e) => handleImport(e.target.files?.[0])}
+            className="hidden"
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={!!busy}
+            className="flex items-center gap-2 bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-300 px-4 py-2 rounded-xl text-sm font-bold transition-all disabled:opacity-50"
+          >
+            {busy === "import" ? "Bezig met terugzetten..." : "📂 Kies ZIP-bestand"}
+          </button>
+          {importResult && (
+            <p className="text-sm text-slate-600 dark:text-slate-300">
+              {importResult.imported} teruggezet, {importResult.skipped} overgeslagen
+              {importResult.failed > 0 && <span className="text-red-500">, {importResult.failed} mislukt (zie console)</span>}
+              {importResult.missingPhotos > 0 && (
+                <span className="block text-amber-600 dark:text-amber-400">
+                  {importResult.missingPhotos} foto{importResult.missingPhotos === 1 ? "" : "'s"} ontbraken in het archief; die maaltijden hebben een placeholder of minder foto&apos;s.
+                </span>
+              )}
+            </p>
+          )}
+        </section>
+
+        {busy && progress && progress.total > 0 && (
+          <div className="space-y-1">
+            <div className="h-2 rounded-full bg-slate-100 dark:bg-slate-800 overflow-hidden">
+              <div className="h-full bg-blue-500 transition-all" style={{ width: `${(progress.done / progress.total) * 100}%` }} />
+            </div>
+            <p className="text-xs text-slate-400 text-right">{progress.done} van {progress.total} maaltijden</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
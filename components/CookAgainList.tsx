@@ -0,0 +1,64 @@
+"use client";
+
+import Image from "next/image";
+import { Meal } from "@/lib/meals";
+import { CookAgainItem, daysAgoLabel } from "@/lib/favorites";
+
+interface CookAgainListProps {
+  items: CookAgainItem[];
+  loading: boolean;
+  onSelectMeal: (meal: Meal) => void;
+}
+
+// Hoe langer geleden, hoe meer het gerecht eruit springt
+const ageColor = (days: number) =>
+  days >= 60 ? "text-green-600 dark:text-green-400" : days >= 21 ? "text-blue-600 dark:text-blue-400" : "text-slate-400";
+
+export default function CookAgainList({ items, loading, onSelectMeal }: CookAgainListProps) {
+  if (loading) {
+    return (
+      <div className="space-y-3">
+        {[1, 2, 3].map(i => <div key={i} className="card h-20 animate-pulse"></div>)}
+      </div>
+    );
+  }
+
+  if (items.length === 0) {
+    return (
+      <div className="text-center py-20 bg-white/50 dark:bg-slate-900/50 rounded-2xl border border-dashed border-slate-300 dark:border-slate-700">
+        <p className="text-slate-500 dark:text-slate-400 font-medium">Nog geen favorieten</p>
+        <p className="text-sm text-slate-400 mt-1">Tik op ♡ bij een maaltijd die je nog eens wilt maken.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="glass p-4 sm:p-6 rounded-2xl border border-slate-200 dark:border-slate-800 space-y-4">
+      <div>
+        <h3 className="text-lg font-bold">🔁 Nog eens maken?</h3>
+        <p className="text-sm text-slate-400">Je favorieten, het langst niet gemaakte gerecht bovenaan.</p>
+      </div>
+      <ul className="divide-y divide-slate-100 dark:divide-slate-800">
+        {items.map(item => (
+          <li key={item.meal.id}>
+            <button
+              onClick={() => onSelectMeal(item.meal)}
+              className="w-full flex items-center gap-4 py-3 text-left rounded-xl hover:bg-slate-50 dark:hover:bg-slate-800/50 transition-all"
+            >
+              <div className="relative h-14 w-14 rounded-xl overflow-hidden bg-slate-100 dark:bg-slate-800 shrink-0">
+                <Image src={item.meal.imageUrl} alt={item.meal.title} fill sizes="56px" className="object-cover" />
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="font-bold truncate">{item.meal.title}</p>
+                <p className="text-xs text-slate-400">
+                  {item.timesMade}× gemaakt • laatst op {new Date(`${item.lastMade}T00:00:00`).toLocaleDateString("nl-NL", { day: "numeric", month: "long", year: "numeric" })}
+                </p>
+              </div>
+              <span className={`text-sm font-bold whitespace-nowrap ${ageColor(item.daysAgo)}`}>{daysAgoLabel(item.daysAgo)}</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
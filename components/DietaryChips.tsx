@@ -0,0 +1,62 @@
+"use client";
+
+import { ALLERGENS, DIET_LABELS, Allergen, DietLabel } from "@/lib/dietary";
+
+interface DietaryChipsProps {
+  allergens: Allergen[];
+  dietLabels: DietLabel[];
+  // Zonder onChange worden alleen de geselecteerde labels getoond
+  onChange?: (value: { allergens: Allergen[]; dietLabels: DietLabel[] }) => void;
+}
+
+const toggle = <T,>(list: T[], item: T) => (list.includes(item) ? list.filter(i => i !== item) : [...list, item]);
+
+export default function DietaryChips({ allergens, dietLabels, onChange }: DietaryChipsProps) {
+  const diets = onChange ? DIET_LABELS : DIET_LABELS.filter(d => dietLabels.includes(d.key));
+  const allergenList = onChange ? ALLERGENS : ALLERGENS.filter(a => allergens.includes(a.key));
+
+  return (
+    <div className="space-y-3">
+      {diets.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {diets.map(diet => {
+            const active = dietLabels.includes(diet.key);
+            return (
+              <button
+                key={diet.key}
+                type="button"
+                disabled={!onChange}
+                onClick={() => onChange?.({ allergens, dietLabels: toggle(dietLabels, diet.key) })}
+                className={`px-2.5 py-1 rounded-full text-xs font-bold border transition-all ${active
+                  ? "bg-green-50 dark:bg-green-900/30 text-green-700 dark:text-green-300 border-green-200 dark:border-green-800"
+                  : "bg-white dark:bg-slate-800 text-slate-400 border-slate-200 dark:border-slate-700 hover:border-green-300"} ${onChange ? "" : "cursor-default"}`}
+              >
+                {diet.emoji} {diet.label}
+              </button>
+            );
+          })}
+        </div>
+      )}
+      {allergenList.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {allergenList.map(allergen => {
+            const active = allergens.includes(allergen.key);
+            return (
+              <button
+                key={allergen.key}
+                type="button"
+                disabled={!onChange}
+                onClick={() => onChange?.({ allergens: toggle(allergens, allergen.key), dietLabels })}
+                className={`px-2.5 py-1 rounded-full text-xs font-bold border transition-all ${active
+                  ? "bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300 border-amber-200 dark:border-amber-800"
+                  : "bg-white dark:bg-slate-800 text-slate-400 border-slate-200 dark:border-slate-700 hover:border-amber-300"} ${onChange ? "" : "cursor-default"}`}
+              >
+                {allergen.emoji} {allergen.label}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+"use client";
+
+import { highlightSegments, SearchTerm } from "@/lib/search";
+
+interface HighlightedTextProps {
+  text: string;
+  terms: SearchTerm[];
+}
+
+// Markeert woorden die bij de zoektermen horen, ongeacht accenten of meervoud
+export default function HighlightedText({ text, terms }: HighlightedTextProps) {
+  return (
+    <>
+      {highlightSegments(text, terms).map((segment, index) => segment.match ? (
+        <mark key={index} className="bg-yellow-200/80 dark:bg-yellow-500/30 text-inherit rounded px-0.5">{segment.text}</mark>
+      ) : (
+        segment.text
+      ))}
+    </>
+  );
+}
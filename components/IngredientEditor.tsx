@@ -0,0 +1,106 @@
+"use client";
+
+import { DEPARTMENTS, Ingredient, MAX_INGREDIENTS, OTHER_DEPARTMENT, UNIT_SUGGESTIONS, formatQuantity } from "@/lib/ingredients";
+
+interface IngredientEditorProps {
+  ingredients: Ingredient[];
+  // Zonder onChange wordt alleen de lijst getoond
+  onChange?: (ingredients: Ingredient[]) => void;
+}
+
+const EMPTY_INGREDIENT: Ingredient = { name: "", quantity: null, unit: "" };
+
+export default function IngredientEditor({ ingredients, onChange }: IngredientEditorProps) {
+  if (!onChange) {
+    return (
+      <ul className="space-y-1.5 text-slate-600 dark:text-slate-300 leading-relaxed print:text-[10pt] print:space-y-0">
+        {ingredients.map((ingredient, index) => (
+          <li key={index} className="flex gap-2">
+            <span className="text-slate-300 dark:text-slate-600 print:hidden">•</span>
+            <span>
+              {ingredient.quantity !== null && <span className="font-bold">{formatQuantity(ingredient)} </span>}
+              {ingredient.name}
+              {ingredient.note && <span className="text-slate-400"> ({ingredient.note})</span>}
+            </span>
+          </li>
+        ))}
+      </ul>
+    );
+  }
+
+  const update = (index: number, changes: Partial<Ingredient>) =>
+    onChange(ingredients.map((ingredient, i) => i === index ? { ...ingredient, ...changes } : ingredient));
+
+  return (
+    <div className="space-y-2">
+      <datalist id="ingredient-units">
+        {UNIT_SUGGESTIONS.map(unit => <option key={unit} value={unit} />)}
+      </datalist>
+
+      {ingredients.map((ingredient, index) => (
+        <div key={index} className="grid grid-cols-[4.5rem_4.5rem_1fr_auto] sm:grid-cols-[4.5rem_4.5rem_1fr_1fr_9rem_auto] gap-1.5 items-center">
+          <input
+            type="number"
+            min={0}
+            step="any"
+            placeholder="Aantal"
+            value={ingredient.quantity ?? ""}
+            onChange={(e) => update(index, { quantity: e.target.value === "" ? null : Number(e.target.value) })}
+            className="input-field !px-2 !py-2 text-sm"
+          />
+          <input
+            type="text"
+            list="ingredient-units"
+            placeholder="Eenheid"
+            value={ingredient.unit}
+            onChange={(e) => update(index, { unit: e.target.value.substring(0, 20) })}
+            className="input-field !px-2 !py-2 text-sm"
+          />
+          <input
+            type="text"
+            placeholder="Ingrediënt"
+            value={ingredient.name}
+            onChange={(e) => update(index, { name: e.target.value.substring(0, 100) })}
+            className="input-field !px-3 !py-2 text-sm"
+          />
+          <input
+            type="text"
+            placeholder="Notitie, bijv. fijngesneden"
+            value={ingredient.note ?? ""}
+            onChange={(e) => update(index, { note: e.target.value.substring(0, 100) })}
+            className="input-field !px-3 !py-2 text-sm hidden sm:block"
+          />
+          <select
+            value={ingredient.department ?? ""}
+            onChange={(e) => update(index, { department: e.target.value || undefined })}
+            className="input-field !px-2 !py-2 text-sm hidden sm:block"
+            title="Afdeling voor de boodschappenlijst"
+          >
+            <option value="">Afdeling…</option>
+            {[...DEPARTMENTS.map(department => department.name), OTHER_DEPARTMENT].map(name => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => onChange(ingredients.filter((_, i) => i !== index))}
+            className="h-9 w-9 rounded-lg text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 transition-all"
+            title="Ingrediënt verwijderen"
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+
+      {ingredients.length < MAX_INGREDIENTS && (
+        <button
+          type="button"
+          onClick={() => onChange([...ingredients, EMPTY_INGREDIENT])}
+          className="text-sm font-bold text-blue-600 dark:text-blue-400 hover:underline ml-1"
+        >
+          + Ingrediënt
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+"use client";
+
+import Image from "next/image";
+import { Meal } from "@/lib/meals";
+import { DateRange, WEEKDAY_LABELS, getCalendarDays, isInRange, toDateKey } from "@/lib/dateRange";
+
+interface MealCalendarProps {
+  month: Date; // eerste dag van de getoonde maand
+  meals: Meal[];
+  dateRange: DateRange;
+  loading: boolean;
+  onMonthChange: (month: Date) => void;
+  onSelectDay: (meals: Meal[]) => void;
+}
+
+const MAX_THUMBNAILS = 3;
+
+export default function MealCalendar({ month, meals, dateRange, loading, onMonthChange, onSelectDay }: MealCalendarProps) {
+  const todayKey = toDateKey(new Date());
+  const mealsByDay = new Map<string, Meal[]>();
+  for (const meal of meals) {
+    mealsByDay.set(meal.date, [...(mealsByDay.get(meal.date) ?? []), meal]);
+  }
+
+  const showMonth = (delta: number) => onMonthChange(new Date(month.getFullYear(), month.getMonth() + delta, 1));
+
+  return (
+    <div className="glass p-4 sm:p-6 rounded-2xl border border-slate-200 dark:border-slate-800 space-y-4">
+      <div className="flex items-center justify-between">
+        <button
+          onClick={() => showMonth(-1)}
+          className="h-9 w-9 rounded-xl bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 font-bold transition-all"
+          title="Vorige maand"
+        >
+          ‹
+        </button>
+        <h3 className="text-lg font-bold capitalize flex items-center gap-2">
+          {month.toLocaleDateString("nl-NL", { month: "long", year: "numeric" })}
+          {loading && <span className="animate-spin h-4 w-4 border-2 border-blue-500 border-t-transparent rounded-full" />}
+        </h3>
+        <button
+          onClick={() => showMonth(1)}
+          className="h-9 w-9 rounded-xl bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 font-bold transition-all"
+          title="Volgende maand"
+        >
+          ›
+        </button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1 sm:gap-2">
+        {WEEKDAY_LABELS.map(label => (
+          <div key={label} className="text-center text-[10px] font-bold text-slate-400 uppercase tracking-wider">{label}</div>
+        ))}
+
+        {getCalendarDays(month).map(day => {
+          const dateKey = toDateKey(day);
+          const dayMeals = mealsByDay.get(dateKey) ?? [];
+          const inMonth = day.getMonth() === month.getMonth();
+          const inRange = isInRange(dateKey, dateRange);
+
+          return (
+            <button
+              key={dateKey}
+              onClick={() => dayMeals.length > 0 && onSelectDay(dayMeals)}
+              disabled={dayMeals.length === 0}
+              className={`relative aspect-square sm:aspect-[4/5] rounded-xl border p-1 text-left flex flex-col transition-all
+                ${dateKey === todayKey ? "border-blue-400 dark:border-blue-500" : "border-slate-100 dark:border-slate-800"}
+                ${dayMeals.length > 0 ? "hover:border-blue-300 hover:shadow-md cursor-pointer" : "cursor-default"}
+                ${inMonth && inRange ? "bg-white dark:bg-slate-900" : "bg-slate-50 dark:bg-slate-900/40 opacity-40"}`}
+            >
+              <span className={`text-[10px] sm:text-xs font-bold ${dateKey === todayKey ? "text-blue-600 dark:text-blue-400" : "text-slate-400"}`}>
+                {day.getDate()}
+              </span>
+              {dayMeals.length > 0 && (
+                <div className="flex-1 grid grid-cols-2 gap-0.5 mt-0.5 overflow-hidden">
+                  {dayMeals.slice(0, MAX_THUMBNAILS).map(meal => (
+                    <div key={meal.id} className={`relative rounded-md overflow-hidden bg-slate-100 dark:bg-slate-800 ${dayMeals.length === 1 ? "col-span-2" : ""}`}>
+                      <Image src={meal.imageUrl} alt={meal.title} fill sizes="80px" className="object-cover" />
+                    </div>
+                  ))}
+                  {dayMeals.length > MAX_THUMBNAILS && (
+                    <div className="rounded-md bg-slate-200 dark:bg-slate-700 flex items-center justify-center text-[10px] font-bold text-slate-600 dark:text-slate-300">
+                      +{dayMeals.length - MAX_THUMBNAILS}
+                    </div>
+                  )}
+                </div>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
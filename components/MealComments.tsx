@@ -0,0 +1,178 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import toast from "react-hot-toast";
+import { useAuth } from "@/context/AuthContext";
+import ConfirmModal from "./ConfirmModal";
+import { Meal } from "@/lib/meals";
+import {
+  MAX_COMMENT_LENGTH,
+  MealComment,
+  REACTIONS,
+  ReactionKey,
+  addComment,
+  canDeleteComment,
+  deleteComment,
+  reactionUsers,
+  subscribeToComments,
+  toggleReaction,
+} from "@/lib/comments";
+
+interface MealCommentsProps {
+  meal: Meal;
+  onUpdate?: (updatedMeal: Meal) => void;
+}
+
+const formatCommentDate = (comment: MealComment) =>
+  comment.createdAt
+    ? comment.createdAt.toDate().toLocaleString("nl-NL", { day: "numeric", month: "short", hour: "2-digit", minute: "2-digit" })
+    : "zojuist";
+
+// Emoji-reacties en reacties onder een maaltijd; iedereen op de whitelist mag meedoen, niet alleen de eigenaar
+export default function MealComments({ meal, onUpdate }: MealCommentsProps) {
+  const { user } = useAuth();
+  const [comments, setComments] = useState<MealComment[]>([]);
+  const [draft, setDraft] = useState("");
+  const [isPosting, setIsPosting] = useState(false);
+  const [commentToDelete, setCommentToDelete] = useState<MealComment | null>(null);
+
+  useEffect(() => subscribeToComments(meal.id, setComments), [meal.id]);
+
+  const handleReaction = async (key: ReactionKey) => {
+    if (!user) return;
+    try {
+      onUpdate?.(await toggleReaction(meal, user.uid, key));
+    } catch (error) {
+      console.error(error);
+      toast.error("Reageren mislukt");
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !draft.trim()) return;
+    setIsPosting(true);
+    try {
+      await addComment(meal.id, user, draft);
+      setDraft("");
+      onUpdate?.({ ...meal, commentCount: (meal.commentCount ?? 0) + 1 });
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Reactie plaatsen mislukt");
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!commentToDelete) return;
+    const comment = commentToDelete;
+    setCommentToDelete(null);
+    try {
+      await deleteComment(meal.id, comment.id);
+      onUpdate?.({ ...meal, commentCount: Math.max(0, (meal.commentCount ?? 1) - 1) });
+      toast.success("Reactie verwijderd");
+    } catch (error) {
+      console.error(error);
+      toast.error("Verwijderen mislukt");
+    }
+  };
+
+  return (
+    <section className="space-y-4 print:hidden">
+      <ConfirmModal
+        isOpen={!!commentToDelete}
+        title="Reactie verwijderen?"
+        message={commentToDelete && commentToDelete.userId !== user?.uid
+          ? `Je verwijdert de reactie van ${commentToDelete.userEmail.split("@")[0]} onder jouw maaltijd.`
+          : "Weet je zeker dat je je reactie wilt verwijderen?"}
+        confirmText="Verwijderen"
+        cancelText="Annuleren"
+        onConfirm={handleDelete}
+        onCancel={() => setCommentToDelete(null)}
+        type="danger"
+      />
+
+      <div className="flex flex-wrap gap-2">
+        {REACTIONS.map(reaction => {
+          const users = reactionUsers(meal, reaction.key);
+          const reacted = !!user && users.includes(user.uid);
+          return (
+            <button
+              key={reaction.key}
+              onClick={() => handleReaction(reaction.key)}
+              className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full text-sm font-bold border transition-all ${reacted
+                ? "bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 border-blue-200 dark:border-blue-800"
+                : "bg-white dark:bg-slate-800 text-slate-500 dark:text-slate-400 border-slate-200 dark:border-slate-700 hover:border-blue-300"}`}
+              title={reaction.label}
+            >
+              <span>{reaction.emoji}</span>
+              {users.length > 0 && <span>{users.length}</span>}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="space-y-3">
+        <h3 className="text-xl font-bold flex items-center gap-2">
+          <span className="text-2xl">💬</span> Reacties {comments.length > 0 && <span className="text-slate-400 text-base">({comments.length})</span>}
+        </h3>
+
+        {comments.length === 0 && <p className="text-sm text-slate-400">Nog geen reacties. Wat vond je ervan?</p>}
+
+        <ul className="space-y-3">
+          {comments.map(comment => (
+            <li key={comment.id} className="flex gap-3 group/comment">
+              <div className="h-8 w-8 shrink-0 rounded-full bg-blue-100 dark:bg-blue-900/30 flex items-center justify-center text-xs font-bold text-blue-600 dark:text-blue-400 uppercase">
+                {comment.userEmail[0]}
+              </div>
+              <div className="flex-1 min-w-0 bg-slate-50 dark:bg-slate-800/50 rounded-2xl px-4 py-2.5">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-xs font-bold">
+                    {comment.userEmail.split("@")[0]}
+                    {comment.userId === meal.userId && <span className="ml-1.5 text-[10px] text-blue-600 dark:text-blue-400 uppercase tracking-wider">kok</span>}
+                    <span className="ml-2 font-medium text-slate-400">{formatCommentDate(comment)}</span>
+                  </p>
+                  {canDeleteComment(comment, meal, user?.uid) && (
+                    <button
+                      onClick={() => setCommentToDelete(comment)}
+                      className="text-xs text-slate-400 hover:text-red-500 transition-colors sm:opacity-0 sm:group-hover/comment:opacity-100"
+                      title="Verwijderen"
+                    >
+                      🗑️
+                    </button>
+                  )}
+                </div>
+                <p className="text-sm whitespace-pre-wrap break-words text-slate-700 dark:text-slate-300">{comment.text}</p>
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        <form onSubmit={handleSubmit} className="flex gap-2 items-end">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && !e.shiftKey) {
+                e.preventDefault();
+                e.currentTarget.form?.requestSubmit();
+              }
+            }}
+            placeholder="Schrijf een reactie..."
+            maxLength={MAX_COMMENT_LENGTH}
+            rows={1}
+            className="input-field resize-none text-sm"
+          />
+          <button
+            type="submit"
+            disabled={isPosting || !draft.trim()}
+            className="btn-primary !py-2.5 !px-4 text-sm disabled:opacity-50"
+          >
+            {isPosting ? "..." : "Plaats"}
+          </button>
+        </form>
+      </div>
+    </section>
+  );
+}
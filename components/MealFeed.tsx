@@ -1,70 +1,366 @@
 "use client";
 
-import { useEffect, useState, useCallback } from "react";
+import { useEffect, useState, useCallback, useMemo, useRef } from "react";
 import { useAuth } from "@/context/AuthContext";
-import { db } from "@/lib/firebase";
-import { collection, query, orderBy, getDocs, Timestamp } from "firebase/firestore";
+import type { Unsubscribe } from "firebase/firestore";
+import toast from "react-hot-toast";
 import Image from "next/image";
 import MealModal from "./MealModal";
-
-interface Meal {
-  id: string;
-  userId: string;
-  userEmail: string;
-  imageUrl: string;
-  title: string;
-  description: string;
-  ingredients?: string;
-  recipe?: string;
-  shoppingList?: string;
-  date: string;
-  healthScore?: number;
-  createdAt: Timestamp | string | null;
-}
-
-type SortField = 'date' | 'user' | 'score';
-type SortDirection = 'asc' | 'desc';
+import MealCalendar from "./MealCalendar";
+import StatsDashboard from "./StatsDashboard";
+import CookAgainList from "./CookAgainList";
+import MealPlanner from "./MealPlanner";
+import ShoppingListModal from "./ShoppingListModal";
+import HighlightedText from "./HighlightedText";
+import { Meal, getMealImages } from "@/lib/meals";
+import {
+  compareMeals,
+  fetchMealPage,
+  fetchMealsInRange,
+  FeedCursor,
+  FeedFilterMode,
+  FeedQueryOptions,
+  FeedSortDirection,
+  FeedSortField,
+  matchesFeedFilters,
+  STATS_MAX_MEALS,
+  subscribeToMealUpdates,
+  subscribeToNewMeals,
+} from "@/lib/mealFeed";
+import { ALLERGENS, DIET_LABELS, Allergen, DietLabel } from "@/lib/dietary";
+import { findSearchSnippet, mealMatchesSearch, parseSearchQuery } from "@/lib/search";
+import { CookAgainItem, fetchCookAgainList, isFavorite, toggleFavorite } from "@/lib/favorites";
+import { REACTIONS, reactionTotal, reactionUsers } from "@/lib/comments";
+import { ShoppingSource, hasShoppingItems } from "@/lib/shoppingList";
+import { CUISINES, MEAL_TYPES, Cuisine, MealType, cuisineInfo, mealTypeInfo } from "@/lib/tags";
+import {
+  DATE_RANGE_PRESETS,
+  DateRange,
+  DateRangePreset,
+  endOfMonth,
+  getPresetRange,
+  intersectRanges,
+  startOfMonth,
+  toDateKey,
+} from "@/lib/dateRange";
 
 export default function MealFeed({ refreshTrigger }: { refreshTrigger: number }) {
   const { user } = useAuth();
   const [meals, setMeals] = useState<Meal[]>([]);
   const [loading, setLoading] = useState(true);
-  const [filterMode, setFilterMode] = useState<"all" | "mine" | "others">("all");
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [filterMode, setFilterMode] = useState<FeedFilterMode>("all");
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedMeal, setSelectedMeal] = useState<Meal | null>(null);
+  const [shoppingSelection, setShoppingSelection] = useState<Meal[] | null>(null); // null = niet aan het selecteren
+  const [shoppingSources, setShoppingSources] = useState<ShoppingSource[] | null>(null);
+  const [newMealIds, setNewMealIds] = useState<string[]>([]); // live binnengekomen, nog niet bekeken
+  const [loadedAt, setLoadedAt] = useState<Date | null>(null);
+
+  // Diet & allergen filters
+  const [showDietFilters, setShowDietFilters] = useState(false);
+  const [requiredDiets, setRequiredDiets] = useState<DietLabel[]>([]);
+  const [excludedAllergens, setExcludedAllergens] = useState<Allergen[]>([]);
+  const activeDietFilterCount = requiredDiets.length + excludedAllergens.length;
+
+  // Tag filters: soort en keuken gaan mee in de query, vrije tags niet
+  const [mealTypeFilter, setMealTypeFilter] = useState<MealType | null>(null);
+  const [cuisineFilter, setCuisineFilter] = useState<Cuisine | null>(null);
+  const [tagFilters, setTagFilters] = useState<string[]>([]);
+
+  // Periode en weergave; de periode geldt voor het raster, de kalender en de statistieken
+  const [view, setView] = useState<"grid" | "calendar" | "stats" | "cookAgain" | "planner">("grid");
+  const [rangePreset, setRangePreset] = useState<DateRangePreset>("all");
+  const [customRange, setCustomRange] = useState<DateRange>({});
+  const dateRange = useMemo(() => rangePreset === "custom" ? customRange : getPresetRange(rangePreset), [rangePreset, customRange]);
+  const [calendarMonth, setCalendarMonth] = useState(() => startOfMonth(new Date()));
+  const [calendarMeals, setCalendarMeals] = useState<Meal[]>([]);
+  const [calendarLoading, setCalendarLoading] = useState(false);
+  const [calendarTruncated, setCalendarTruncated] = useState(false);
+  const [statsMeals, setStatsMeals] = useState<Meal[]>([]);
+  const [statsLoading, setStatsLoading] = useState(false);
+  const [statsTruncated, setStatsTruncated] = useState(false);
+  const [cookAgainItems, setCookAgainItems] = useState<CookAgainItem[]>([]);
+  const [cookAgainLoading, setCookAgainLoading] = useState(false);
+  const [dayMeals, setDayMeals] = useState<Meal[] | null>(null); // maaltijden van de aangeklikte kalenderdag
   
   // Sorting state
-  const [sortField, setSortField] = useState<SortField>('date');
-  const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
+  const [sortField, setSortField] = useState<FeedSortField>('date');
+  const [sortDirection, setSortDirection] = useState<FeedSortDirection>('desc');
+
+  // Paginering: cursor naar het laatste document, requestId om verouderde antwoorden te negeren
+  const cursorRef = useRef<FeedCursor | null>(null);
+  const requestIdRef = useRef(0);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  // De rest filteren we in het geheugen; met favorieten aan zit de array-contains al bezet
+  const primaryDiet = favoritesOnly ? undefined : requiredDiets[0];
+
+  // Alles wat in de Firestore query zelf zit; vrije tags filteren we in het geheugen
+  const feedOptions = useMemo<FeedQueryOptions | null>(() => user ? {
+    userId: user.uid,
+    filterMode,
+    sortField,
+    sortDirection,
+    dietLabel: primaryDiet,
+    favoritesOnly,
+    mealType: mealTypeFilter ?? undefined,
+    cuisine: cuisineFilter ?? undefined,
+    dateRange: dateRange.from || dateRange.to ? dateRange : undefined,
+  } : null, [user, filterMode, sortField, sortDirection, primaryDiet, favoritesOnly, mealTypeFilter, cuisineFilter, dateRange]);
 
   const fetchMeals = useCallback(async () => {
-    if (!user) {
+    const requestId = ++requestIdRef.current;
+    cursorRef.current = null;
+    if (!feedOptions) {
       setMeals([]);
+      setHasMore(false);
       setLoading(false);
       return;
     }
     setLoading(true);
     try {
-      const mealsRef = collection(db, "meals");
-      // Initial fetch is just by createdAt desc to get latest
-      const baseQuery = query(mealsRef, orderBy("createdAt", "desc"));
-      
-      const snapshot = await getDocs(baseQuery);
-      const fetchedMeals = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Meal));
-      
-      setMeals(fetchedMeals);
+      const page = await fetchMealPage(feedOptions);
+      if (requestId !== requestIdRef.current) return;
+
+      cursorRef.current = page.cursor;
+      setMeals(page.meals);
+      setHasMore(page.hasMore);
+      setLoadedAt(new Date());
     } catch (error) {
       console.error("Error fetching meals:", error);
     } finally {
-      setLoading(false);
+      if (requestId === requestIdRef.current) setLoading(false);
     }
-  }, [user]);
+  }, [feedOptions]);
+
+  const loadMore = useCallback(async () => {
+    if (!feedOptions || loading || loadingMore || !hasMore) return;
+    const requestId = requestIdRef.current;
+    setLoadingMore(true);
+    try {
+      const page = await fetchMealPage(feedOptions, cursorRef.current);
+      if (requestId !== requestIdRef.current) return;
+
+      cursorRef.current = page.cursor;
+      setMeals(prev => [...prev, ...page.meals.filter(meal => !prev.some(existing => existing.id === meal.id))]);
+      setHasMore(page.hasMore);
+    } catch (error) {
+      console.error("Error fetching more meals:", error);
+      setHasMore(false);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [feedOptions, loading, loadingMore, hasMore]);
 
   useEffect(() => {
     fetchMeals();
   }, [fetchMeals, refreshTrigger]);
 
-  const handleSort = (field: SortField) => {
+  // Kalender: de hele maand in één keer, beperkt tot de gekozen periode
+  const fetchCalendarMeals = useCallback(async () => {
+    const range = intersectRanges(
+      { from: toDateKey(calendarMonth), to: toDateKey(endOfMonth(calendarMonth)) },
+      feedOptions?.dateRange ?? {}
+    );
+    if (!feedOptions || !range) {
+      setCalendarMeals([]);
+      setCalendarTruncated(false);
+      return;
+    }
+    setCalendarLoading(true);
+    try {
+      const { meals: mealsInMonth, truncated } = await fetchMealsInRange(feedOptions, range);
+      setCalendarMeals(mealsInMonth);
+      setCalendarTruncated(truncated);
+    } catch (error) {
+      console.error("Error fetching calendar meals:", error);
+    } finally {
+      setCalendarLoading(false);
+    }
+  }, [feedOptions, calendarMonth]);
+
+  useEffect(() => {
+    if (view === "calendar") fetchCalendarMeals();
+  }, [view, fetchCalendarMeals, refreshTrigger]);
+
+  // Statistieken: alle maaltijden in de gekozen periode, niet alleen de geladen pagina's
+  const fetchStatsMeals = useCallback(async () => {
+    if (!feedOptions) return;
+    setStatsLoading(true);
+    try {
+      const { meals: mealsInRange, truncated } = await fetchMealsInRange(feedOptions, feedOptions.dateRange ?? {}, STATS_MAX_MEALS);
+      setStatsMeals(mealsInRange);
+      setStatsTruncated(truncated);
+    } catch (error) {
+      console.error("Error fetching stats meals:", error);
+    } finally {
+      setStatsLoading(false);
+    }
+  }, [feedOptions]);
+
+  useEffect(() => {
+    if (view === "stats") fetchStatsMeals();
+  }, [view, fetchStatsMeals, refreshTrigger]);
+
+  // Nog eens maken: favorieten van deze gebruiker, los van de overige feedfilters
+  const fetchCookAgain = useCallback(async () => {
+    if (!user) return;
+    setCookAgainLoading(true);
+    try {
+      setCookAgainItems(await fetchCookAgainList(user.uid));
+    } catch (error) {
+      console.error("Error fetching cook again list:", error);
+    } finally {
+      setCookAgainLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (view === "cookAgain") fetchCookAgain();
+  }, [view, fetchCookAgain, refreshTrigger]);
+
+  const handleRangePreset = (preset: DateRangePreset) => {
+    setRangePreset(preset);
+    // In de kalender direct naar het begin van de gekozen periode springen
+    const from = preset === "custom" ? customRange.from : getPresetRange(preset).from;
+    if (from) setCalendarMonth(startOfMonth(new Date(`${from}T00:00:00`)));
+  };
+
+  // Bewerkingen uit de modal in alle lijsten doorvoeren
+  const replaceMeal = (updatedMeal: Meal) => {
+    const replace = (list: Meal[]) => list.map(m => m.id === updatedMeal.id ? updatedMeal : m);
+    setMeals(replace);
+    setCalendarMeals(replace);
+    setStatsMeals(replace);
+    setCookAgainItems(prev => prev.map(item => item.meal.id === updatedMeal.id ? { ...item, meal: updatedMeal } : item));
+    setDayMeals(prev => prev && replace(prev));
+  };
+
+  const removeMeal = (id: string) => {
+    const remove = (list: Meal[]) => list.filter(m => m.id !== id);
+    setMeals(remove);
+    setCalendarMeals(remove);
+    setStatsMeals(remove);
+    setCookAgainItems(prev => prev.filter(item => item.meal.id !== id));
+    setDayMeals(prev => prev && remove(prev));
+    setShoppingSelection(prev => prev && remove(prev));
+  };
+
+  const handleToggleFavorite = async (meal: Meal) => {
+    if (!user) return;
+    try {
+      replaceMeal(await toggleFavorite(meal, user.uid));
+    } catch (error) {
+      console.error("Error toggling favorite:", error);
+      toast.error("Favoriet opslaan mislukt");
+    }
+  };
+
+  const toggleShoppingSelection = (meal: Meal) => {
+    if (!hasShoppingItems(meal)) {
+      toast.error("Deze maaltijd heeft geen boodschappenlijst of ingrediënten");
+      return;
+    }
+    setShoppingSelection(prev => prev && (prev.some(m => m.id === meal.id) ? prev.filter(m => m.id !== meal.id) : [...prev, meal]));
+  };
+
+  const dayIndex = dayMeals && selectedMeal ? dayMeals.findIndex(m => m.id === selectedMeal.id) : -1;
+  const showDayMeal = (delta: number) => {
+    if (!dayMeals || dayIndex === -1) return;
+    setSelectedMeal(dayMeals[(dayIndex + delta + dayMeals.length) % dayMeals.length]);
+  };
+
+  // Live: nieuwe maaltijden van (andere) huisgenoten op de juiste plek invoegen
+  useEffect(() => {
+    if (!feedOptions || !loadedAt) return;
+    const { userId, sortField, sortDirection } = feedOptions;
+
+    return subscribeToNewMeals(loadedAt, (added) => {
+      const incoming = added.filter(meal => matchesFeedFilters(meal, feedOptions));
+      if (incoming.length === 0) return;
+
+      setMeals(prev => {
+        let next = prev;
+        for (const meal of incoming) {
+          if (next.some(existing => existing.id === meal.id)) continue;
+          const index = next.findIndex(existing => compareMeals(meal, existing, sortField, sortDirection) < 0);
+          // Hoort na de laatst geladen maaltijd: komt vanzelf mee met een volgende pagina
+          if (index === -1 && hasMore) continue;
+          next = index === -1 ? [...next, meal] : [...next.slice(0, index), meal, ...next.slice(index)];
+        }
+        return next;
+      });
+      setNewMealIds(prev => [...prev, ...incoming.filter(meal => meal.userId !== userId).map(meal => meal.id)]);
+    });
+  }, [feedOptions, loadedAt, hasMore]);
+
+  // Live: bewerkingen en verwijderingen van geladen maaltijden (ook vanaf andere apparaten).
+  // Per geladen pagina één keer luisteren; alleen een nieuwe query begint weer van voren af aan.
+  const mealListenersRef = useRef<{ ids: Set<string>; unsubscribers: Unsubscribe[] }>({ ids: new Set(), unsubscribers: [] });
+  const feedOptionsRef = useRef(feedOptions);
+  useEffect(() => {
+    feedOptionsRef.current = feedOptions;
+  }, [feedOptions]);
+
+  useEffect(() => {
+    const listeners = mealListenersRef.current;
+    return () => {
+      listeners.unsubscribers.forEach(unsubscribe => unsubscribe());
+      listeners.unsubscribers = [];
+      listeners.ids.clear();
+    };
+  }, [loadedAt]);
+
+  useEffect(() => {
+    const listeners = mealListenersRef.current;
+    // De kalender laat ook maaltijden buiten de geladen pagina's zien; de statistieken zijn een momentopname
+    const newIds = Array.from(new Set([...meals, ...calendarMeals].map(meal => meal.id))).filter(id => !listeners.ids.has(id));
+    if (newIds.length === 0) return;
+    newIds.forEach(id => listeners.ids.add(id));
+
+    listeners.unsubscribers.push(subscribeToMealUpdates(newIds, {
+      onModified: (meal) => {
+        // Past de maaltijd na de wijziging nog bij de filters? Anders uit de lijsten halen
+        const options = feedOptionsRef.current;
+        const matches = !options || matchesFeedFilters(meal, options);
+        const update = (list: Meal[]) => matches ? list.map(m => m.id === meal.id ? meal : m) : list.filter(m => m.id !== meal.id);
+        setMeals(update);
+        setCalendarMeals(update);
+        setStatsMeals(update);
+        setDayMeals(prev => prev && prev.map(m => m.id === meal.id ? meal : m));
+        setCookAgainItems(prev => prev.map(item => item.meal.id === meal.id ? { ...item, meal } : item));
+        // Een geopende maaltijd blijft open, ook als hij niet meer bij de filters past, maar toont wel de nieuwe versie
+        setSelectedMeal(prev => prev?.id === meal.id ? meal : prev);
+      },
+      onRemoved: (id) => {
+        const remove = (list: Meal[]) => list.filter(m => m.id !== id);
+        setMeals(remove);
+        setCalendarMeals(remove);
+        setStatsMeals(remove);
+        setDayMeals(prev => prev && remove(prev));
+        setCookAgainItems(prev => prev.filter(item => item.meal.id !== id));
+        setNewMealIds(prev => prev.filter(newId => newId !== id));
+        // Elders verwijderd: de modal sluiten, anders faalt opslaan daarna op een document dat niet meer bestaat
+        setSelectedMeal(prev => prev?.id === id ? null : prev);
+      },
+    }));
+  }, [meals, calendarMeals]);
+
+  // Infinite scroll: volgende pagina laden zodra het einde van de lijst in beeld komt.
+  // Opnieuw observeren na elke pagina, zodat er doorgeladen wordt als de filters veel wegfilteren.
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0]?.isIntersecting) loadMore();
+    }, { rootMargin: "400px" });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [loadMore, hasMore, meals]);
+
+  const handleSort = (field: FeedSortField) => {
     if (sortField === field) {
       setSortDirection(prev => prev === 'asc' ? 'desc' : 'asc');
     } else {
@@ -73,40 +369,25 @@ export default function MealFeed({ refreshTrigger }: { refreshTrigger: number })
     }
   };
 
-  const getSortedMeals = (mealsToSort: Meal[]) => {
-    return [...mealsToSort].sort((a, b) => {
-      let comparison = 0;
-      
-      switch (sortField) {
-        case 'date':
-          comparison = a.date.localeCompare(b.date);
-          break;
-        case 'user':
-          const userA = a.userEmail.split('@')[0];
-          const userB = b.userEmail.split('@')[0];
-          comparison = userA.localeCompare(userB);
-          break;
-        case 'score':
-          const scoreA = a.healthScore || 0;
-          const scoreB = b.healthScore || 0;
-          comparison = scoreA - scoreB;
-          break;
-      }
-      
-      return sortDirection === 'asc' ? comparison : -comparison;
-    });
-  };
+  // Zoeken gebeurt in de geladen pagina's; infinite scroll laadt door zolang er te weinig treffers zijn
+  const searchTerms = useMemo(() => parseSearchQuery(searchQuery), [searchQuery]);
 
-  const filteredMeals = meals.filter(meal => {
-    if (filterMode === "mine" && user && meal.userId !== user.uid) return false;
-    if (filterMode === "others" && user && meal.userId === user.uid) return false;
-    return (
-      meal.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      meal.description?.toLowerCase().includes(searchQuery.toLowerCase())
-    );
-  });
+  // Van mij/anderen, sortering en het eerste dieetlabel zitten al in de query
+  // Alleen keukens en tags tonen die in de geladen maaltijden voorkomen (plus wat al geselecteerd is)
+  const availableCuisines = CUISINES.filter(kitchen => kitchen.key === cuisineFilter || meals.some(meal => meal.cuisine === kitchen.key));
+  const availableTags = Array.from(new Set([...tagFilters, ...meals.flatMap(meal => meal.tags ?? [])])).sort();
+  const tagChipClass = (active: boolean) => `px-3 py-1 rounded-full text-xs font-bold border transition-all whitespace-nowrap ${active
+    ? "bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300 border-indigo-200 dark:border-indigo-800"
+    : "bg-white dark:bg-slate-800 text-slate-500 dark:text-slate-400 border-slate-200 dark:border-slate-700 hover:border-indigo-300"}`;
 
-  const displayedMeals = getSortedMeals(filteredMeals);
+  const matchesLocalFilters = (meal: Meal) => {
+    if (requiredDiets.some(diet => !meal.dietLabels?.includes(diet))) return false;
+    if (tagFilters.some(tag => !meal.tags?.includes(tag))) return false;
+    // Zonder allergeneninfo weten we niet of een maaltijd veilig is, dus verbergen
+    if (excludedAllergens.length > 0 && (!meal.allergens || excludedAllergens.some(allergen => meal.allergens?.includes(allergen)))) return false;
+    return mealMatchesSearch(meal, searchTerms);
+  };
+  const displayedMeals = meals.filter(matchesLocalFilters);
 
   return (
     <div className="space-y-6 print:hidden">
@@ -136,6 +417,37 @@ export default function MealFeed({ refreshTrigger }: { refreshTrigger: number })
             </button>
           </div>
 
+          <button
+            onClick={() => setShowDietFilters(prev => !prev)}
+            className={`px-4 py-2 rounded-xl text-sm font-bold border transition-all whitespace-nowrap ${showDietFilters || activeDietFilterCount > 0
+              ? "bg-green-50 dark:bg-green-900/30 text-green-700 dark:text-green-300 border-green-200 dark:border-green-800"
+              : "bg-white dark:bg-slate-800 text-slate-500 dark:text-slate-400 border-slate-200 dark:border-slate-700 hover:border-green-300"}`}
+          >
+            🥗 Dieet{activeDietFilterCount > 0 && ` (${activeDietFilterCount})`}
+          </button>
+
+          <button
+            onClick={() => setFavoritesOnly(prev => !prev)}
+            className={`px-4 py-2 rounded-xl text-sm font-bold border transition-all whitespace-nowrap ${favoritesOnly
+              ? "bg-rose-50 dark:bg-rose-900/30 text-rose-600 dark:text-rose-300 border-rose-200 dark:border-rose-800"
+              : "bg-white dark:bg-slate-800 text-slate-500 dark:text-slate-400 border-slate-200 dark:border-slate-700 hover:border-rose-300"}`}
+          >
+            {favoritesOnly ? "❤️" : "🤍"} Favorieten
+          </button>
+
+          <button
+            onClick={() => {
+              setShoppingSelection(prev => prev ? null : []);
+              setView("grid");
+            }}
+            className={`px-4 py-2 rounded-xl text-sm font-bold border transition-all whitespace-nowrap ${shoppingSelection
+              ? "bg-orange-50 dark:bg-orange-900/30 text-orange-700 dark:text-orange-300 border-orange-200 dark:border-orange-800"
+              : "bg-white dark:bg-slate-800 text-slate-500 dark:text-slate-400 border-slate-200 dark:border-slate-700 hover:border-orange-300"}`}
+            title="Kies maaltijden voor één gezamenlijke boodschappenlijst"
+          >
+            🛒 Boodschappen
+          </button>
+
           <div className="relative w-full sm:w-80">
             <svg 
               className="absolute left-3.5 top-1/2 -translate-y-1/2 h-5 w-5 text-slate-400 pointer-events-none" 
@@ -147,7 +459,7 @@ export default function MealFeed({ refreshTrigger }: { refreshTrigger: number })
             </svg>
             <input 
               type="text" 
-              placeholder="Zoeken op titel of beschrijving..."
+              placeholder="Zoeken, bijv. courgette feta..."
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
               className="input-field !pl-12"
@@ -189,17 +501,180 @@ export default function MealFeed({ refreshTrigger }: { refreshTrigger: number })
           >
             ⭐ Score {sortField === 'score' && (sortDirection === 'asc' ? '↑' : '↓')}
           </button>
+
+          <button 
+            onClick={() => handleSort('rating')}
+            className={`px-3 py-1.5 rounded-lg text-xs font-bold border transition-all whitespace-nowrap flex items-center gap-1
+              ${sortField === 'rating' 
+                ? 'bg-blue-50 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400 border-blue-200 dark:border-blue-800' 
+                : 'bg-white dark:bg-slate-800 text-slate-500 dark:text-slate-400 border-slate-200 dark:border-slate-700 hover:border-blue-300'}`}
+          >
+            😋 Smaak {sortField === 'rating' && (sortDirection === 'asc' ? '↑' : '↓')}
+          </button>
         </div>
       </div>
 
-      {/* Grid */}
-      {loading ? (
+      {/* View & date range */}
+      <div className="flex flex-col sm:flex-row gap-3 sm:items-center justify-between">
+        <div className="flex bg-slate-100 dark:bg-slate-800/50 p-1 rounded-xl self-start max-w-full overflow-x-auto scrollbar-hide">
+          {([["grid", "🔲 Raster"], ["calendar", "📅 Kalender"], ["stats", "📊 Statistieken"], ["cookAgain", "🔁 Nog eens"], ["planner", "🗓️ Planner"]] as const).map(([key, label]) => (
+            <button
+              key={key}
+              onClick={() => setView(key)}
+              className={`px-4 py-1.5 rounded-lg text-sm font-bold whitespace-nowrap transition-all ${view === key ? "bg-white dark:bg-slate-700 shadow-sm text-blue-600 dark:text-blue-400" : "text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200"}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-1.5 overflow-x-auto pb-1 sm:pb-0 scrollbar-hide">
+          {DATE_RANGE_PRESETS.map(preset => (
+            <button
+              key={preset.key}
+              onClick={() => handleRangePreset(preset.key)}
+              className={`px-3 py-1.5 rounded-lg text-xs font-bold border transition-all whitespace-nowrap ${rangePreset === preset.key
+                ? "bg-blue-50 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400 border-blue-200 dark:border-blue-800"
+                : "bg-white dark:bg-slate-800 text-slate-500 dark:text-slate-400 border-slate-200 dark:border-slate-700 hover:border-blue-300"}`}
+            >
+              {preset.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {rangePreset === "custom" && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <input
+            type="date"
+            value={customRange.from ?? ""}
+            max={customRange.to}
+            onChange={(e) => setCustomRange(prev => ({ ...prev, from: e.target.value || undefined }))}
+            className="input-field !w-auto text-sm"
+          />
+          <span className="text-slate-400">t/m</span>
+          <input
+            type="date"
+            value={customRange.to ?? ""}
+            min={customRange.from}
+            onChange={(e) => setCustomRange(prev => ({ ...prev, to: e.target.value || undefined }))}
+            className="input-field !w-auto text-sm"
+          />
+        </div>
+      )}
+
+      {/* Tag filters */}
+      <div className="flex items-center gap-1.5 overflow-x-auto pb-1 scrollbar-hide">
+        {MEAL_TYPES.map(type => (
+          <button
+            key={type.key}
+            onClick={() => setMealTypeFilter(prev => prev === type.key ? null : type.key)}
+            className={tagChipClass(mealTypeFilter === type.key)}
+          >
+            {type.emoji} {type.label}
+          </button>
+        ))}
+        {availableCuisines.length > 0 && <span className="h-5 w-px bg-slate-200 dark:bg-slate-700 mx-1 shrink-0" />}
+        {availableCuisines.map(kitchen => (
+          <button
+            key={kitchen.key}
+            onClick={() => setCuisineFilter(prev => prev === kitchen.key ? null : kitchen.key)}
+            className={tagChipClass(cuisineFilter === kitchen.key)}
+          >
+            {kitchen.emoji} {kitchen.label}
+          </button>
+        ))}
+        {availableTags.length > 0 && <span className="h-5 w-px bg-slate-200 dark:bg-slate-700 mx-1 shrink-0" />}
+        {availableTags.map(tag => (
+          <button
+            key={tag}
+            onClick={() => setTagFilters(prev => prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag])}
+            className={tagChipClass(tagFilters.includes(tag))}
+          >
+            #{tag}
+          </button>
+        ))}
+      </div>
+
+      {showDietFilters && (
+        <div className="glass p-4 rounded-2xl border border-slate-200 dark:border-slate-800 space-y-3 animate-in fade-in slide-in-from-top-2 duration-200">
+          <div className="flex flex-wrap items-center gap-1.5">
+            <span className="text-xs font-bold text-slate-400 uppercase tracking-wider mr-1">Alleen:</span>
+            {DIET_LABELS.map(diet => (
+              <button
+                key={diet.key}
+                onClick={() => setRequiredDiets(prev => prev.includes(diet.key) ? prev.filter(d => d !== diet.key) : [...prev, diet.key])}
+                className={`px-2.5 py-1 rounded-full text-xs font-bold border transition-all ${requiredDiets.includes(diet.key)
+                  ? "bg-green-50 dark:bg-green-900/30 text-green-700 dark:text-green-300 border-green-200 dark:border-green-800"
+                  : "bg-white dark:bg-slate-800 text-slate-500 dark:text-slate-400 border-slate-200 dark:border-slate-700 hover:border-green-300"}`}
+              >
+                {diet.emoji} {diet.label}
+              </button>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-1.5">
+            <span className="text-xs font-bold text-slate-400 uppercase tracking-wider mr-1">Zonder:</span>
+            {ALLERGENS.map(allergen => (
+              <button
+                key={allergen.key}
+                onClick={() => setExcludedAllergens(prev => prev.includes(allergen.key) ? prev.filter(a => a !== allergen.key) : [...prev, allergen.key])}
+                className={`px-2.5 py-1 rounded-full text-xs font-bold border transition-all ${excludedAllergens.includes(allergen.key)
+                  ? "bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-300 border-red-200 dark:border-red-800 line-through"
+                  : "bg-white dark:bg-slate-800 text-slate-500 dark:text-slate-400 border-slate-200 dark:border-slate-700 hover:border-red-300"}`}
+              >
+                {allergen.emoji} {allergen.label}
+              </button>
+            ))}
+          </div>
+          {activeDietFilterCount > 0 && (
+            <div className="flex items-center justify-between text-xs text-slate-400">
+              <span>{excludedAllergens.length > 0 && "Maaltijden zonder allergeneninformatie worden verborgen."}</span>
+              <button
+                onClick={() => { setRequiredDiets([]); setExcludedAllergens([]); }}
+                className="font-bold text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                Filters wissen
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {((view === "calendar" && calendarTruncated) || (view === "stats" && statsTruncated)) && (
+        <p className="text-sm text-amber-700 dark:text-amber-400 bg-amber-50 dark:bg-amber-950/40 border border-amber-200 dark:border-amber-900 rounded-xl px-4 py-2">
+          Er zijn te veel maaltijden in deze periode; alleen de meest recente worden getoond. Kies een kortere periode om alles te zien.
+        </p>
+      )}
+
+      {view === "calendar" ? (
+        <MealCalendar
+          month={calendarMonth}
+          meals={calendarMeals.filter(matchesLocalFilters)}
+          dateRange={dateRange}
+          loading={calendarLoading}
+          onMonthChange={setCalendarMonth}
+          onSelectDay={(mealsOfDay) => {
+            setDayMeals(mealsOfDay);
+            setSelectedMeal(mealsOfDay[0]);
+          }}
+        />
+      ) : view === "planner" ? (
+        <MealPlanner />
+      ) : view === "cookAgain" ? (
+        <CookAgainList items={cookAgainItems} loading={cookAgainLoading} onSelectMeal={setSelectedMeal} />
+      ) : view === "stats" ? (
+        <StatsDashboard
+          meals={statsMeals.filter(matchesLocalFilters)}
+          loading={statsLoading}
+          onSelectMeal={setSelectedMeal}
+        />
+      ) : loading ? (
         <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
           {[1, 2, 3, 4].map(i => (
             <div key={i} className="card h-80 animate-pulse"></div>
           ))}
         </div>
-      ) : displayedMeals.length === 0 ? (
+      ) : displayedMeals.length === 0 && !hasMore ? (
         <div className="text-center py-20 bg-white/50 dark:bg-slate-900/50 rounded-2xl border border-dashed border-slate-300 dark:border-slate-700">
           <div className="bg-slate-100 dark:bg-slate-800 h-12 w-12 rounded-full flex items-center justify-center mx-auto mb-4 text-slate-400 dark:text-slate-500">
             <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -213,8 +688,15 @@ export default function MealFeed({ refreshTrigger }: { refreshTrigger: number })
           {displayedMeals.map((meal, index) => (
             <div 
               key={meal.id} 
-              onClick={() => setSelectedMeal(meal)}
-              className="break-inside-avoid group card !p-0 overflow-hidden hover:border-blue-200 dark:hover:border-blue-800/50 cursor-pointer hover:shadow-xl transition-all hover:-translate-y-1"
+              onClick={() => {
+                if (shoppingSelection) {
+                  toggleShoppingSelection(meal);
+                  return;
+                }
+                setSelectedMeal(meal);
+                setNewMealIds(prev => prev.filter(id => id !== meal.id));
+              }}
+              className={`break-inside-avoid group card !p-0 overflow-hidden hover:border-blue-200 dark:hover:border-blue-800/50 cursor-pointer hover:shadow-xl transition-all hover:-translate-y-1 ${shoppingSelection?.some(m => m.id === meal.id) ? "ring-2 ring-orange-400" : ""}`}
             >
               <div className="relative aspect-[4/3] w-full bg-slate-100 dark:bg-slate-800 overflow-hidden">
                 <Image 
@@ -225,6 +707,35 @@ export default function MealFeed({ refreshTrigger }: { refreshTrigger: number })
                   sizes="(max-width: 768px) 100vw, 50vw"
                   priority={index < 2}
                 />
+                {shoppingSelection && (
+                  <div className={`absolute inset-0 flex items-start justify-end p-3 ${hasShoppingItems(meal) ? "bg-black/10" : "bg-white/60 dark:bg-slate-900/60"}`}>
+                    <span className={`h-7 w-7 rounded-full border-2 flex items-center justify-center text-sm font-bold shadow-sm ${shoppingSelection.some(m => m.id === meal.id)
+                      ? "bg-orange-500 border-orange-500 text-white"
+                      : "bg-white/80 border-white text-transparent"}`}>
+                      ✓
+                    </span>
+                  </div>
+                )}
+                {newMealIds.includes(meal.id) && (
+                  <div className="absolute top-3 left-3 flex items-center gap-1.5 px-2 py-0.5 rounded-full text-[10px] font-bold uppercase tracking-wider bg-blue-600/90 text-white backdrop-blur-md shadow-sm animate-in fade-in">
+                    <span className="h-1.5 w-1.5 rounded-full bg-white animate-pulse" /> Nieuw
+                  </div>
+                )}
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleToggleFavorite(meal);
+                  }}
+                  className="absolute bottom-3 left-3 h-8 w-8 rounded-full bg-black/40 hover:bg-black/60 backdrop-blur-md flex items-center justify-center text-sm transition-all"
+                  title={isFavorite(meal, user?.uid) ? "Uit favorieten halen" : "Favoriet"}
+                >
+                  {isFavorite(meal, user?.uid) ? "❤️" : "🤍"}
+                </button>
+                {getMealImages(meal).length > 1 && (
+                  <div className="absolute bottom-3 right-3 px-2 py-0.5 rounded-full text-[10px] font-bold bg-black/50 text-white backdrop-blur-md">
+                    📷 {getMealImages(meal).length}
+                  </div>
+                )}
                 {meal.healthScore && (
                   <div className="absolute top-3 right-3">
                     <div className={`px-2.5 py-1 rounded-full text-[10px] font-black uppercase tracking-wider shadow-sm backdrop-blur-md border ${
@@ -240,8 +751,16 @@ export default function MealFeed({ refreshTrigger }: { refreshTrigger: number })
               <div className="p-5">
                 <div className="flex justify-between items-start mb-2 gap-2">
                   <h3 className="font-bold leading-tight group-hover:text-blue-600 dark:group-hover:text-blue-400 transition-colors">
-                    {meal.title || "Maaltijd zonder titel"}
+                    {meal.title ? <HighlightedText text={meal.title} terms={searchTerms} /> : "Maaltijd zonder titel"}
                   </h3>
+                  {meal.ratingAverage !== undefined && (
+                    <span
+                      className="shrink-0 text-xs font-bold text-amber-500 whitespace-nowrap"
+                      title={`Gemiddeld ${meal.ratingAverage} van ${meal.ratingCount ?? 0} huisgeno${meal.ratingCount === 1 ? "ot" : "ten"}`}
+                    >
+                      ★ {meal.ratingAverage} <span className="text-slate-400 font-medium">({meal.ratingCount ?? 0})</span>
+                    </span>
+                  )}
                 </div>
                 
                 <div className="flex items-center gap-2 mb-4">
@@ -255,27 +774,106 @@ export default function MealFeed({ refreshTrigger }: { refreshTrigger: number })
                 
                 {meal.description && (
                   <p className="text-sm leading-relaxed whitespace-pre-wrap line-clamp-3 text-slate-600 dark:text-slate-400">
-                    {meal.description}
+                    <HighlightedText text={meal.description} terms={searchTerms} />
                   </p>
                 )}
+
+                {(() => {
+                  const snippet = findSearchSnippet(meal, searchTerms);
+                  return snippet && (
+                    <p className="text-xs mt-3 px-3 py-2 rounded-lg bg-slate-50 dark:bg-slate-800/50 text-slate-500 dark:text-slate-400 line-clamp-2">
+                      <span className="font-bold uppercase tracking-wider text-[10px] mr-1.5">🔎 {snippet.label}</span>
+                      <HighlightedText text={snippet.text} terms={searchTerms} />
+                    </p>
+                  );
+                })()}
+
+                {(meal.mealType || meal.cuisine || (meal.tags?.length ?? 0) > 0) && (
+                  <div className="flex flex-wrap gap-1.5 mt-4 text-[10px] font-bold text-indigo-600 dark:text-indigo-300">
+                    {mealTypeInfo(meal.mealType) && <span>{mealTypeInfo(meal.mealType)?.emoji} {mealTypeInfo(meal.mealType)?.label}</span>}
+                    {cuisineInfo(meal.cuisine) && <span>{cuisineInfo(meal.cuisine)?.emoji} {cuisineInfo(meal.cuisine)?.label}</span>}
+                    {meal.tags?.slice(0, 3).map(tag => <span key={tag} className="text-slate-400 dark:text-slate-500">#{tag}</span>)}
+                  </div>
+                )}
+
+                {((meal.commentCount ?? 0) > 0 || reactionTotal(meal) > 0) && (
+                  <div className="flex items-center gap-3 mt-4 text-xs font-bold text-slate-400 dark:text-slate-500">
+                    {REACTIONS.filter(reaction => reactionUsers(meal, reaction.key).length > 0).map(reaction => (
+                      <span key={reaction.key}>{reaction.emoji} {reactionUsers(meal, reaction.key).length}</span>
+                    ))}
+                    {(meal.commentCount ?? 0) > 0 && <span>💬 {meal.commentCount}</span>}
+                  </div>
+                )}
+
+                {meal.nutrition && (
+                  <div className="flex flex-wrap gap-1.5 mt-4 text-[10px] font-bold uppercase tracking-wider">
+                    <span className="px-2 py-0.5 rounded-full bg-emerald-50 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-300">🔥 {meal.nutrition.calories} kcal</span>
+                    <span className="px-2 py-0.5 rounded-full bg-slate-100 dark:bg-slate-800 text-slate-500 dark:text-slate-400">E {meal.nutrition.protein}g</span>
+                    <span className="px-2 py-0.5 rounded-full bg-slate-100 dark:bg-slate-800 text-slate-500 dark:text-slate-400">K {meal.nutrition.carbs}g</span>
+                    <span className="px-2 py-0.5 rounded-full bg-slate-100 dark:bg-slate-800 text-slate-500 dark:text-slate-400">V {meal.nutrition.fat}g</span>
+                  </div>
+                )}
               </div>
             </div>
           ))}
         </div>
       )}
 
+      {view === "grid" && hasMore && !loading && (
+        <div ref={sentinelRef} className="flex justify-center py-6">
+          {loadingMore && <div className="animate-spin h-6 w-6 border-2 border-blue-500 border-t-transparent rounded-full" />}
+        </div>
+      )}
+
+      {shoppingSelection && view === "grid" && (
+        <div className="sticky bottom-4 z-30 flex items-center justify-between gap-3 bg-white dark:bg-slate-900 border border-orange-200 dark:border-orange-800 shadow-xl rounded-2xl px-4 py-3">
+          <span className="text-sm font-bold text-slate-600 dark:text-slate-300">
+            {shoppingSelection.length === 0 ? "Tik op maaltijden om ze te kiezen" : `${shoppingSelection.length} geselecteerd`}
+          </span>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setShoppingSelection(null)}
+              className="px-3 py-2 rounded-xl text-sm font-bold text-slate-500 hover:text-slate-700 dark:hover:text-slate-200"
+            >
+              Annuleren
+            </button>
+            <button
+              onClick={() => setShoppingSources(shoppingSelection)}
+              disabled={shoppingSelection.length === 0}
+              className="btn-primary !py-2 !px-4 text-sm disabled:opacity-50"
+            >
+              🛒 Maak boodschappenlijst
+            </button>
+          </div>
+        </div>
+      )}
+
+      {shoppingSources && (
+        <ShoppingListModal sources={shoppingSources} onClose={() => setShoppingSources(null)} />
+      )}
+
       {selectedMeal && (
         <MealModal 
+          key={selectedMeal.id}
           meal={selectedMeal} 
-          onClose={() => setSelectedMeal(null)} 
+          onClose={() => {
+            setSelectedMeal(null);
+            setDayMeals(null);
+          }} 
           onDelete={(id) => {
-            setMeals(prev => prev.filter(m => m.id !== id));
+            removeMeal(id);
             setSelectedMeal(null);
+            setDayMeals(null);
           }}
           onUpdate={(updatedMeal) => {
-            setMeals(prev => prev.map(m => m.id === updatedMeal.id ? updatedMeal : m));
+            replaceMeal(updatedMeal);
             setSelectedMeal(updatedMeal);
           }}
+          dayNavigation={dayMeals && dayMeals.length > 1 && dayIndex !== -1 ? {
+            label: `${dayIndex + 1} van ${dayMeals.length} op deze dag`,
+            onPrevious: () => showDayMeal(-1),
+            onNext: () => showDayMeal(1),
+          } : undefined}
         />
       )}
     </div>
@@ -1,60 +1,92 @@
 "use client";
 
-import { useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { createPortal } from "react-dom";
 import NextImage from "next/image";
 import { useAuth } from "@/context/AuthContext";
 import { db } from "@/lib/firebase";
-import { doc, deleteDoc, updateDoc, Timestamp } from "firebase/firestore";
+import { doc, deleteDoc, updateDoc } from "firebase/firestore";
 import toast from "react-hot-toast";
 import ConfirmModal from "./ConfirmModal";
-
-interface Meal {
-  id: string;
-  userId: string;
-  userEmail: string;
-  imageUrl: string;
-  title: string;
-  description: string;
-  ingredients?: string;
-  recipe?: string;
-  shoppingList?: string;
-  date: string;
-  healthScore?: number;
-  createdAt: Timestamp | string | null;
-}
+import DietaryChips from "./DietaryChips";
+import MealComments from "./MealComments";
+import MealRatings from "./MealRatings";
+import TagEditor, { MealTags } from "./TagEditor";
+import IngredientEditor from "./IngredientEditor";
+import { Meal, getMealImages } from "@/lib/meals";
+import { isFavorite, toggleFavorite } from "@/lib/favorites";
+import { Allergen, DietLabel } from "@/lib/dietary";
+import { DEFAULT_SERVINGS, SERVING_OPTIONS, scaleQuantities, servingsLabel } from "@/lib/servings";
+import { Ingredient, cleanIngredients, getIngredients, ingredientsToText, scaleIngredients } from "@/lib/ingredients";
+import { Nutrition, NutritionConfidence, NUTRITION_FIELDS, CONFIDENCE_LABELS, EMPTY_NUTRITION } from "@/lib/nutrition";
+import { RECIPE_FORMATS, RecipeFormat, exportRecipe, recipeFileName } from "@/lib/recipeExport";
 
 interface MealModalProps {
   meal: Meal;
   onClose: () => void;
   onDelete: (id: string) => void;
   onUpdate?: (updatedMeal: Meal) => void;
+  // Bladeren tussen meerdere maaltijden van dezelfde dag (vanuit de kalender)
+  dayNavigation?: { label: string; onPrevious: () => void; onNext: () => void };
 }
 
-export default function MealModal({ meal, onClose, onDelete, onUpdate }: MealModalProps) {
+export default function MealModal({ meal, onClose, onDelete, onUpdate, dayNavigation }: MealModalProps) {
   const { user } = useAuth();
   const modalRef = useRef<HTMLDivElement>(null);
   
   const [isEditing, setIsEditing] = useState(false);
   const [editTitle, setEditTitle] = useState(meal.title);
   const [editDescription, setEditDescription] = useState(meal.description);
-  const [editIngredients, setEditIngredients] = useState(meal.ingredients || "");
+  const ingredients = getIngredients(meal);
+  const [editIngredients, setEditIngredients] = useState<Ingredient[]>(ingredients);
   const [editRecipe, setEditRecipe] = useState(meal.recipe || "");
   const [editShoppingList, setEditShoppingList] = useState(meal.shoppingList || "");
   const [editDate, setEditDate] = useState(meal.date);
+  const servings = meal.servings ?? DEFAULT_SERVINGS;
+  const [editServings, setEditServings] = useState<number>(servings);
   const [editHealthScore] = useState<number | "">(meal.healthScore || "");
+  const [editNutrition, setEditNutrition] = useState<Nutrition | null>(meal.nutrition ?? null);
+  const [editAllergens, setEditAllergens] = useState<Allergen[]>(meal.allergens ?? []);
+  const [editDietLabels, setEditDietLabels] = useState<DietLabel[]>(meal.dietLabels ?? []);
+  const [editTags, setEditTags] = useState<MealTags>({ mealType: meal.mealType ?? null, cuisine: meal.cuisine ?? null, tags: meal.tags ?? [] });
   const [isUpdating, setIsUpdating] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [isFullScreen, setIsFullScreen] = useState(false);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [exportingFormat, setExportingFormat] = useState<RecipeFormat | null>(null);
+
+  // Photo gallery
+  const images = getMealImages(meal);
+  const [imageIndex, setImageIndex] = useState(0);
+  const currentImage = images[imageIndex] ?? meal.imageUrl;
+  const touchStartX = useRef<number | null>(null);
+
+  const showImage = useCallback((delta: number) => {
+    setImageIndex(prev => (prev + delta + images.length) % images.length);
+  }, [images.length]);
+
+  const swipeHandlers = {
+    onTouchStart: (e: React.TouchEvent) => {
+      touchStartX.current = e.touches[0].clientX;
+    },
+    onTouchEnd: (e: React.TouchEvent) => {
+      if (touchStartX.current === null || images.length < 2) return;
+      const deltaX = e.changedTouches[0].clientX - touchStartX.current;
+      touchStartX.current = null;
+      if (Math.abs(deltaX) > 50) showImage(deltaX < 0 ? 1 : -1);
+    },
+  };
 
-  // Close on Escape key
+  // Close on Escape key, browse photos with the arrow keys
   useEffect(() => {
     const handleEsc = (e: KeyboardEvent) => {
       if (e.key === "Escape") onClose();
+      if (images.length > 1 && e.key === "ArrowLeft") showImage(-1);
+      if (images.length > 1 && e.key === "ArrowRight") showImage(1);
     };
     window.addEventListener("keydown", handleEsc);
     return () => window.removeEventListener("keydown", handleEsc);
-  }, [onClose]);
+  }, [onClose, images.length, showImage]);
 
   // Prevent scrolling when modal is open
   useEffect(() => {
@@ -75,14 +107,22 @@ export default function MealModal({ meal, onClose, onDelete, onUpdate }: MealMod
     setIsUpdating(true);
     try {
       const mealRef = doc(db, "meals", meal.id);
+      // Oudere maaltijden krijgen bij de eerste bewerking ook de ingrediënt-records
+      const ingredientList = cleanIngredients(editIngredients);
       const updatedData = {
         title: editTitle,
         description: editDescription,
-        ingredients: editIngredients,
+        ingredients: ingredientsToText(ingredientList),
+        ingredientList,
         recipe: editRecipe,
         shoppingList: editShoppingList,
+        servings: editServings,
         date: editDate,
         healthScore: editHealthScore === "" ? null : Number(editHealthScore),
+        nutrition: editNutrition,
+        allergens: editAllergens,
+        dietLabels: editDietLabels,
+        ...editTags,
       };
       
       await updateDoc(mealRef, updatedData);
@@ -106,7 +146,7 @@ export default function MealModal({ meal, onClose, onDelete, onUpdate }: MealMod
   };
 
   const handleCopy = () => {
-    const text = `🍴 ${meal.title}\n\n📝 Beschrijving:\n${meal.description}\n\n🥕 Ingrediënten:\n${meal.ingredients || "Geen ingrediënten opgegeven"}\n\n👨‍🍳 Bereiding:\n${meal.recipe || "Geen bereidingswijze opgegeven"}\n\n🛒 Boodschappenlijst (AH - 2 pers):\n${meal.shoppingList || "Geen boodschappenlijst opgegeven"}\n\n📅 Datum: ${new Date(meal.date).toLocaleDateString('nl-NL')}\n⭐ Gezondheidsscore: ${meal.healthScore || "N/A"}`;
+    const text = `🍴 ${meal.title}\n\n📝 Beschrijving:\n${meal.description}\n\n🥕 Ingrediënten:\n${meal.ingredients || "Geen ingrediënten opgegeven"}\n\n👨‍🍳 Bereiding:\n${meal.recipe || "Geen bereidingswijze opgegeven"}\n\n🛒 Boodschappenlijst (AH - ${servingsLabel(servings)}):\n${meal.shoppingList || "Geen boodschappenlijst opgegeven"}\n\n📅 Datum: ${new Date(meal.date).toLocaleDateString('nl-NL')}\n⭐ Gezondheidsscore: ${meal.healthScore || "N/A"}`;
     navigator.clipboard.writeText(text);
     toast.success("Tekst gekopieerd naar klembord");
   };
@@ -136,7 +176,7 @@ export default function MealModal({ meal, onClose, onDelete, onUpdate }: MealMod
   const handleCopyPicture = async () => {
     try {
       // Use proxy to avoid CORS issues
-      const proxyUrl = `/api/proxy-image?url=${encodeURIComponent(meal.imageUrl)}`;
+      const proxyUrl = `/api/proxy-image?url=${encodeURIComponent(currentImage)}`;
       const response = await fetch(proxyUrl);
       if (!response.ok) throw new Error("Proxy fetch failed");
       const blob = await response.blob();
@@ -175,6 +215,28 @@ export default function MealModal({ meal, onClose, onDelete, onUpdate }: MealMod
     }
   };
 
+  const handleExport = async (format: RecipeFormat) => {
+    setShowExportMenu(false);
+    setExportingFormat(format);
+    try {
+      const blob = await exportRecipe(meal, format);
+      const extension = RECIPE_FORMATS.find(f => f.key === format)?.extension ?? "txt";
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = recipeFileName(meal, extension);
+      link.click();
+      // Direct intrekken kan de download in Safari en Firefox afbreken
+      setTimeout(() => URL.revokeObjectURL(url), 60 * 1000);
+      toast.success("Recept geëxporteerd!");
+    } catch (error) {
+      console.error("Error exporting recipe:", error);
+      toast.error("Exporteren mislukt");
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
   const handleDelete = async () => {
     setIsUpdating(true);
     try {
@@ -209,6 +271,26 @@ export default function MealModal({ meal, onClose, onDelete, onUpdate }: MealMod
   );
 
   const isOwner = user && user.uid === meal.userId;
+  const favorite = isFavorite(meal, user?.uid);
+
+  const handleToggleFavorite = async () => {
+    if (!user) return;
+    try {
+      const updatedMeal = await toggleFavorite(meal, user.uid);
+      onUpdate?.(updatedMeal);
+      toast.success(favorite ? "Uit favorieten gehaald" : "Toegevoegd aan favorieten");
+    } catch (error) {
+      console.error(error);
+      toast.error("Favoriet opslaan mislukt");
+    }
+  };
+
+  // Ingrediënten en boodschappenlijst meeschalen met het nieuwe aantal personen
+  const handleServingsChange = (newServings: number) => {
+    setEditIngredients(prev => scaleIngredients(prev, editServings, newServings));
+    setEditShoppingList(prev => scaleQuantities(prev, editServings, newServings));
+    setEditServings(newServings);
+  };
 
   const modalContent = (
     <div className="fixed inset-0 z-50 meal-modal-container flex items-center justify-center p-4 sm:p-6 print:relative print:block print:p-0 print:z-0">
@@ -223,9 +305,9 @@ export default function MealModal({ meal, onClose, onDelete, onUpdate }: MealMod
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
             </svg>
           </button>
-          <div className="relative w-full h-full p-4 sm:p-12">
+          <div className="relative w-full h-full p-4 sm:p-12" {...swipeHandlers}>
             <NextImage 
-              src={meal.imageUrl} 
+              src={currentImage} 
               alt={meal.title} 
               fill
               className="object-contain"
@@ -260,9 +342,9 @@ export default function MealModal({ meal, onClose, onDelete, onUpdate }: MealMod
       >
         {/* Header Image */}
         <div className="relative h-64 sm:h-80 w-full shrink-0 print:h-auto print:w-full print:block print:shrink group">
-          <div className="relative w-full h-full print:h-64 print:overflow-hidden print:rounded-3xl">
+          <div className="relative w-full h-full print:h-64 print:overflow-hidden print:rounded-3xl" {...swipeHandlers}>
             <NextImage 
-              src={meal.imageUrl} 
+              src={currentImage} 
               alt={meal.title} 
               fill
               className="object-cover print:relative print:block print:!h-full print:!w-full"
@@ -270,7 +352,36 @@ export default function MealModal({ meal, onClose, onDelete, onUpdate }: MealMod
               unoptimized
             />
           </div>
-          <div className="absolute inset-0 bg-gradient-to-t from-black/80 via-transparent to-transparent print:hidden"></div>
+          <div className="absolute inset-0 bg-gradient-to-t from-black/80 via-transparent to-transparent print:hidden pointer-events-none"></div>
+
+          {images.length > 1 && (
+            <>
+              <button
+                onClick={() => showImage(-1)}
+                className="absolute left-3 top-1/2 -translate-y-1/2 bg-black/40 hover:bg-black/60 text-white h-10 w-10 rounded-full backdrop-blur-md transition-all flex items-center justify-center print:hidden"
+                title="Vorige foto"
+              >
+                ‹
+              </button>
+              <button
+                onClick={() => showImage(1)}
+                className="absolute right-3 top-1/2 -translate-y-1/2 bg-black/40 hover:bg-black/60 text-white h-10 w-10 rounded-full backdrop-blur-md transition-all flex items-center justify-center print:hidden"
+                title="Volgende foto"
+              >
+                ›
+              </button>
+              <div className="absolute top-4 left-4 flex gap-1.5 print:hidden">
+                {images.map((_, index) => (
+                  <button
+                    key={index}
+                    onClick={() => setImageIndex(index)}
+                    className={`h-2 rounded-full transition-all ${index === imageIndex ? "w-6 bg-white" : "w-2 bg-white/50 hover:bg-white/80"}`}
+                    title={`Foto ${index + 1}`}
+                  />
+                ))}
+              </div>
+            </>
+          )}
           
           <div className="absolute top-4 right-4 flex gap-2 print:hidden">
             <button 
@@ -305,6 +416,13 @@ export default function MealModal({ meal, onClose, onDelete, onUpdate }: MealMod
               <span className="flex items-center gap-1.5">
                 <span className="opacity-60">📅</span> {meal.date}
               </span>
+              {dayNavigation && (
+                <span className="flex items-center gap-1 bg-black/40 backdrop-blur-md rounded-full px-1 print:hidden">
+                  <button onClick={dayNavigation.onPrevious} className="h-6 w-6 rounded-full hover:bg-white/20" title="Vorige maaltijd">‹</button>
+                  <span className="text-xs">{dayNavigation.label}</span>
+                  <button onClick={dayNavigation.onNext} className="h-6 w-6 rounded-full hover:bg-white/20" title="Volgende maaltijd">›</button>
+                </span>
+              )}
             </div>
           </div>
         </div>
@@ -313,12 +431,45 @@ export default function MealModal({ meal, onClose, onDelete, onUpdate }: MealMod
           {/* Action Buttons - Print Hidden */}
           <div className="flex flex-wrap items-center justify-between gap-4 pb-6 border-b border-slate-100 dark:border-slate-800 print:hidden">
             <div className="flex flex-wrap items-center gap-2">
+              <button
+                onClick={handleToggleFavorite}
+                className={`flex items-center gap-2 px-4 py-2 rounded-xl font-bold transition-all ${favorite
+                  ? "bg-rose-100 dark:bg-rose-900/30 hover:bg-rose-200 dark:hover:bg-rose-800 text-rose-700 dark:text-rose-300"
+                  : "bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-300"}`}
+              >
+                <span>{favorite ? "❤️" : "🤍"}</span> {favorite ? "Favoriet" : "Bewaar als favoriet"}
+              </button>
               <button 
                 onClick={() => window.print()}
                 className="flex items-center gap-2 bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-300 px-4 py-2 rounded-xl font-bold transition-all"
               >
                 <span>🖨️</span> Print / PDF
               </button>
+              <div className="relative">
+                <button
+                  onClick={() => setShowExportMenu(!showExportMenu)}
+                  disabled={!!exportingFormat}
+                  className="flex items-center gap-2 bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-300 px-4 py-2 rounded-xl font-bold transition-all disabled:opacity-50"
+                >
+                  <span>📤</span> {exportingFormat ? "Bezig met exporteren..." : "Exporteer"}
+                </button>
+                {showExportMenu && (
+                  <>
+                    <div className="fixed inset-0 z-10" onClick={() => setShowExportMenu(false)}></div>
+                    <div className="absolute left-0 top-full mt-2 z-20 w-56 bg-white dark:bg-slate-800 rounded-2xl shadow-xl border border-slate-100 dark:border-slate-700 p-1.5">
+                      {RECIPE_FORMATS.map(format => (
+                        <button
+                          key={format.key}
+                          onClick={() => handleExport(format.key)}
+                          className="w-full flex items-center gap-2 px-3 py-2 rounded-xl text-sm font-bold text-left text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+                        >
+                          <span>{format.emoji}</span> {format.label}
+                        </button>
+                      ))}
+                    </div>
+                  </>
+                )}
+              </div>
               <button 
                 onClick={handleCopyPicture}
                 className="flex items-center gap-2 bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-300 px-4 py-2 rounded-xl font-bold transition-all"
@@ -347,7 +498,7 @@ export default function MealModal({ meal, onClose, onDelete, onUpdate }: MealMod
               {meal.shoppingList && (
                 <button 
                   onClick={() => {
-                    const text = `🛒 Boodschappenlijst voor ${meal.title} (2 personen):\n\n${meal.shoppingList}`;
+                    const text = `🛒 Boodschappenlijst voor ${meal.title} (${servingsLabel(servings)}):\n\n${meal.shoppingList}`;
                     navigator.clipboard.writeText(text);
                     toast.success("Boodschappenlijst gekopieerd!");
                   }}
@@ -407,6 +558,23 @@ export default function MealModal({ meal, onClose, onDelete, onUpdate }: MealMod
                 </div>
               </div>
 
+              <div className="space-y-2">
+                <label className="text-sm font-bold text-slate-500 dark:text-slate-400 ml-1">Aantal personen</label>
+                <div className="flex bg-slate-100 dark:bg-slate-800/50 p-1 rounded-xl max-w-sm">
+                  {SERVING_OPTIONS.map(option => (
+                    <button
+                      key={option}
+                      type="button"
+                      onClick={() => handleServingsChange(option)}
+                      className={`flex-1 py-1.5 rounded-lg text-sm font-bold transition-all ${editServings === option ? "bg-white dark:bg-slate-700 shadow-sm text-blue-600 dark:text-blue-400" : "text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200"}`}
+                    >
+                      {option}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-slate-400 ml-1">Hoeveelheden in de ingrediënten en boodschappenlijst worden automatisch omgerekend.</p>
+              </div>
+
               <div className="space-y-2">
                 <label className="text-sm font-bold text-slate-500 dark:text-slate-400 ml-1">Beschrijving</label>
                 <textarea 
@@ -417,29 +585,23 @@ export default function MealModal({ meal, onClose, onDelete, onUpdate }: MealMod
                 />
               </div>
 
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                <div className="space-y-2">
-                  <label className="text-sm font-bold text-slate-500 dark:text-slate-400 ml-1">Ingrediënten</label>
-                  <textarea 
-                    value={editIngredients}
-                    onChange={(e) => setEditIngredients(e.target.value)}
-                    className="input-field min-h-[150px] py-3 font-mono text-sm"
-                    placeholder="Lijst met ingrediënten..."
-                  />
-                </div>
-                <div className="space-y-2">
-                  <label className="text-sm font-bold text-slate-500 dark:text-slate-400 ml-1">Bereidingswijze</label>
-                  <textarea 
-                    value={editRecipe}
-                    onChange={(e) => setEditRecipe(e.target.value)}
-                    className="input-field min-h-[150px] py-3 font-mono text-sm"
-                    placeholder="Stap-voor-stap instructies..."
-                  />
-                </div>
+              <div className="space-y-2">
+                <label className="text-sm font-bold text-slate-500 dark:text-slate-400 ml-1">Ingrediënten ({servingsLabel(editServings)})</label>
+                <IngredientEditor ingredients={editIngredients} onChange={setEditIngredients} />
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-bold text-slate-500 dark:text-slate-400 ml-1">Bereidingswijze</label>
+                <textarea 
+                  value={editRecipe}
+                  onChange={(e) => setEditRecipe(e.target.value)}
+                  className="input-field min-h-[150px] py-3 font-mono text-sm"
+                  placeholder="Stap-voor-stap instructies..."
+                />
               </div>
 
               <div className="space-y-2">
-                <label className="text-sm font-bold text-slate-500 dark:text-slate-400 ml-1">Boodschappenlijst (AH, 2 pers)</label>
+                <label className="text-sm font-bold text-slate-500 dark:text-slate-400 ml-1">Boodschappenlijst (AH, {servingsLabel(editServings)})</label>
                 <textarea 
                   value={editShoppingList}
                   onChange={(e) => setEditShoppingList(e.target.value)}
@@ -448,6 +610,57 @@ export default function MealModal({ meal, onClose, onDelete, onUpdate }: MealMod
                 />
               </div>
 
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <label className="text-sm font-bold text-slate-500 dark:text-slate-400 ml-1">Voedingswaarden per portie</label>
+                  <select
+                    value={(editNutrition ?? EMPTY_NUTRITION).confidence}
+                    onChange={(e) => setEditNutrition({ ...(editNutrition ?? EMPTY_NUTRITION), confidence: e.target.value as NutritionConfidence })}
+                    className="input-field !w-auto text-sm py-1"
+                  >
+                    {Object.entries(CONFIDENCE_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-6 gap-3">
+                  {NUTRITION_FIELDS.map(field => (
+                    <div key={field.key}>
+                      <span className="text-xs text-slate-400 font-bold ml-1">{field.label} ({field.unit})</span>
+                      <input
+                        type="number"
+                        min="0"
+                        max={field.max}
+                        step="any"
+                        value={(editNutrition ?? EMPTY_NUTRITION)[field.key]}
+                        onChange={(e) => setEditNutrition({
+                          ...(editNutrition ?? EMPTY_NUTRITION),
+                          [field.key]: Math.min(Math.max(Number(e.target.value), 0), field.max),
+                        })}
+                        className="input-field"
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-bold text-slate-500 dark:text-slate-400 ml-1">Dieet &amp; allergenen</label>
+                <DietaryChips
+                  allergens={editAllergens}
+                  dietLabels={editDietLabels}
+                  onChange={(value) => {
+                    setEditAllergens(value.allergens);
+                    setEditDietLabels(value.dietLabels);
+                  }}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-bold text-slate-500 dark:text-slate-400 ml-1">Soort, keuken &amp; tags</label>
+                <TagEditor {...editTags} onChange={setEditTags} />
+              </div>
+
               <div className="flex gap-3 pt-4">
                 <button 
                   onClick={handleUpdate}
@@ -478,18 +691,16 @@ export default function MealModal({ meal, onClose, onDelete, onUpdate }: MealMod
                     </p>
                   </section>
 
-                  {meal.ingredients && (
+                  {ingredients.length > 0 && (
                     <section className="break-inside-avoid">
                       <div className="flex items-center justify-between mb-4 print:mb-1">
                         <h3 className="text-xl font-bold flex items-center gap-2 print:text-sm">
                           <span>🥕</span> Ingrediënten
                         </h3>
-                        <CopyButton title="Ingrediënten" content={meal.ingredients} />
+                        <CopyButton title="Ingrediënten" content={ingredientsToText(ingredients)} />
                       </div>
                       <div className="bg-slate-50 dark:bg-slate-800/40 p-6 rounded-3xl border border-slate-100 dark:border-slate-800/50 print:p-0 print:bg-transparent print:border-none">
-                        <pre className="whitespace-pre-wrap font-sans text-slate-600 dark:text-slate-300 leading-relaxed print:text-[10pt]">
-                          {meal.ingredients}
-                        </pre>
+                        <IngredientEditor ingredients={ingredients} />
                       </div>
                     </section>
                   )}
@@ -528,11 +739,52 @@ export default function MealModal({ meal, onClose, onDelete, onUpdate }: MealMod
                     </section>
                   )}
 
+                  {(meal.mealType || meal.cuisine || (meal.tags?.length ?? 0) > 0) && (
+                    <section className="break-inside-avoid print:hidden">
+                      <h3 className="text-lg font-bold mb-3 flex items-center gap-2">
+                        <span>🏷️</span> Tags
+                      </h3>
+                      <TagEditor mealType={meal.mealType ?? null} cuisine={meal.cuisine ?? null} tags={meal.tags ?? []} />
+                    </section>
+                  )}
+
+                  {((meal.allergens?.length ?? 0) > 0 || (meal.dietLabels?.length ?? 0) > 0) && (
+                    <section className="break-inside-avoid">
+                      <h3 className="text-lg font-bold mb-3 flex items-center gap-2 print:text-sm print:mb-1">
+                        <span>⚠️</span> Dieet &amp; allergenen
+                      </h3>
+                      <DietaryChips allergens={meal.allergens ?? []} dietLabels={meal.dietLabels ?? []} />
+                    </section>
+                  )}
+
+                  {meal.nutrition && (
+                    <section className="bg-emerald-50/50 dark:bg-emerald-900/10 p-6 sm:p-8 rounded-3xl border border-emerald-100/50 dark:border-emerald-800/30 break-inside-avoid print:p-0 print:bg-transparent print:border-none">
+                      <div className="flex items-center justify-between mb-4 print:mb-1">
+                        <h3 className="text-lg font-bold text-emerald-900 dark:text-emerald-100 flex items-center gap-2 print:text-sm">
+                          <span>🔥</span> Voedingswaarden <span className="text-xs font-medium opacity-70">(per portie)</span>
+                        </h3>
+                        <span className="text-[10px] font-bold uppercase tracking-wider text-emerald-700/70 dark:text-emerald-300/70">
+                          {CONFIDENCE_LABELS[meal.nutrition.confidence]}
+                        </span>
+                      </div>
+                      <div className="grid grid-cols-3 gap-3 print:gap-1">
+                        {NUTRITION_FIELDS.map(field => (
+                          <div key={field.key} className="bg-white/60 dark:bg-slate-900/40 rounded-2xl p-3 text-center print:p-0 print:bg-transparent">
+                            <div className="text-xl font-black text-emerald-700 dark:text-emerald-300 print:text-sm">
+                              {meal.nutrition?.[field.key]}<span className="text-xs font-bold ml-0.5">{field.unit}</span>
+                            </div>
+                            <div className="text-[10px] font-bold uppercase tracking-wider text-slate-500 dark:text-slate-400">{field.label}</div>
+                          </div>
+                        ))}
+                      </div>
+                    </section>
+                  )}
+
                   {meal.shoppingList && (
                     <section className="bg-orange-50/50 dark:bg-orange-900/10 p-6 sm:p-8 rounded-3xl border border-orange-100/50 dark:border-orange-800/30 break-inside-avoid print:p-3 print:bg-slate-50 print:border print:border-slate-200 print:rounded-xl">
                       <div className="flex items-center justify-between mb-4 print:mb-1">
                         <h3 className="text-lg font-bold text-orange-900 dark:text-orange-100 flex items-center gap-2 print:text-sm">
-                          <span>🛒</span> Boodschappen (AH, 2 pers)
+                          <span>🛒</span> Boodschappen (AH, {servingsLabel(servings)})
                         </h3>
                         <CopyButton title="Boodschappenlijst" content={meal.shoppingList} />
                       </div>
@@ -560,6 +812,11 @@ export default function MealModal({ meal, onClose, onDelete, onUpdate }: MealMod
                   </div>
                 </section>
               )}
+
+              <div className="pt-6 border-t border-slate-100 dark:border-slate-800 space-y-8">
+                <MealRatings meal={meal} onUpdate={onUpdate} />
+                <MealComments meal={meal} onUpdate={onUpdate} />
+              </div>
             </div>
           )}
         </div>
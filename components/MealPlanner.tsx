@@ -0,0 +1,382 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import Image from "next/image";
+import toast from "react-hot-toast";
+import { useAuth } from "@/context/AuthContext";
+import AddMealForm from "./AddMealForm";
+import ShoppingListModal from "./ShoppingListModal";
+import { Meal } from "@/lib/meals";
+import { isFavorite } from "@/lib/favorites";
+import { mealMatchesSearch, parseSearchQuery } from "@/lib/search";
+import { addDays, startOfWeek, toDateKey } from "@/lib/dateRange";
+import { ShoppingSource, hasShoppingItems } from "@/lib/shoppingList";
+import {
+  PlannedMeal,
+  PlannerSource,
+  fetchPlannerHistory,
+  getWeekDays,
+  isPast,
+  movePlannedMeal,
+  planMeal,
+  removePlannedMeal,
+  subscribeToPlannedMeals,
+} from "@/lib/planner";
+
+// Wat er gesleept (of op mobiel aangetikt) wordt: een gerecht uit de geschiedenis, een idee of iets dat al gepland is
+type PlannerItem = PlannerSource | { type: "planned"; plannedMeal: PlannedMeal };
+
+const MAX_HISTORY_SHOWN = 40;
+
+const itemTitle = (item: PlannerItem) =>
+  item.type === "meal" ? item.meal.title : item.type === "idea" ? item.title : item.plannedMeal.title;
+
+const itemKey = (item: PlannerItem) =>
+  item.type === "meal" ? `meal:${item.meal.id}` : item.type === "idea" ? `idea:${item.title}` : `planned:${item.plannedMeal.id}`;
+
+export default function MealPlanner() {
+  const { user } = useAuth();
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date()));
+  const [planned, setPlanned] = useState<PlannedMeal[]>([]);
+  const [history, setHistory] = useState<Meal[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(true);
+  const [historyQuery, setHistoryQuery] = useState("");
+  const [ideaDraft, setIdeaDraft] = useState("");
+  const [ideas, setIdeas] = useState<string[]>([]);
+  const [selectedItem, setSelectedItem] = useState<PlannerItem | null>(null); // tik-en-plaats voor touchscreens
+  const [dragOverDate, setDragOverDate] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [loggingMeal, setLoggingMeal] = useState<PlannedMeal | null>(null);
+  const [shoppingSources, setShoppingSources] = useState<ShoppingSource[] | null>(null);
+  const dragItemRef = useRef<PlannerItem | null>(null);
+
+  const days = getWeekDays(weekStart);
+  const from = toDateKey(days[0]);
+  const to = toDateKey(days[6]);
+  const todayKey = toDateKey(new Date());
+
+  useEffect(() => subscribeToPlannedMeals({ from, to }, setPlanned), [from, to]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchPlannerHistory()
+      .then(meals => { if (!cancelled) setHistory(meals); })
+      .catch(error => console.error("Error fetching planner history:", error))
+      .finally(() => { if (!cancelled) setHistoryLoading(false); });
+    return () => { cancelled = true; };
+  }, []);
+
+  // Eigen favorieten bovenaan, daarna het laatst gegeten gerecht eerst
+  const shownHistory = useMemo(() => {
+    const terms = parseSearchQuery(historyQuery);
+    return history
+      .filter(meal => mealMatchesSearch(meal, terms))
+      .sort((a, b) => Number(isFavorite(b, user?.uid)) - Number(isFavorite(a, user?.uid)))
+      .slice(0, MAX_HISTORY_SHOWN);
+  }, [history, historyQuery, user]);
+
+  const placeItem = async (item: PlannerItem, date: string) => {
+    if (!user) return;
+    try {
+      if (item.type === "planned") {
+        if (item.plannedMeal.date !== date) await movePlannedMeal(item.plannedMeal.id, date);
+      } else {
+        await planMeal(date, item, user);
+        if (item.type === "idea") setIdeas(prev => prev.filter(idea => idea !== item.title));
+      }
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Plannen mislukt");
+    }
+  };
+
+  const handleRemove = async (plannedMeal: PlannedMeal) => {
+    try {
+      await removePlannedMeal(plannedMeal.id);
+    } catch (error) {
+      console.error(error);
+      toast.error("Verwijderen mislukt");
+    }
+  };
+
+  const addIdea = (e: React.FormEvent) => {
+    e.preventDefault();
+    const idea = ideaDraft.trim().substring(0, 100);
+    if (!idea) return;
+    setIdeas(prev => prev.includes(idea) ? prev : [...prev, idea]);
+    setIdeaDraft("");
+  };
+
+  const dragProps = (item: PlannerItem) => ({
+    draggable: true,
+    onDragStart: (e: React.DragEvent) => {
+      dragItemRef.current = item;
+      e.dataTransfer.effectAllowed = item.type === "planned" ? "move" : "copy";
+      e.dataTransfer.setData("text/plain", itemTitle(item)); // Firefox sleept niets zonder data
+    },
+    onDragEnd: () => {
+      dragItemRef.current = null;
+      setDragOverDate(null);
+    },
+    onClick: (e: React.MouseEvent) => {
+      e.stopPropagation(); // niet meteen op de dag eronder plaatsen
+      setSelectedItem(prev => prev && itemKey(prev) === itemKey(item) ? null : item);
+    },
+  });
+
+  const isSelected = (item: PlannerItem) => !!selectedItem && itemKey(selectedItem) === itemKey(item);
+
+  const sourceClass = (item: PlannerItem) => `cursor-grab active:cursor-grabbing transition-all ${isSelected(item)
+    ? "ring-2 ring-blue-500 bg-blue-50 dark:bg-blue-900/30"
+    : "hover:bg-slate-100 dark:hover:bg-slate-800"}`;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-[18rem_1fr] gap-6">
+      {/* Bronnen: nieuwe ideeën en eerder gegeten gerechten */}
+      <aside className="glass p-4 rounded-2xl border border-slate-200 dark:border-slate-800 space-y-4 lg:max-h-[80vh] lg:overflow-y-auto">
+        <div>
+          <h3 className="font-bold">Wat gaan we eten?</h3>
+          <p className="text-xs text-slate-400">Sleep een gerecht naar een dag, of tik erop en daarna op een dag.</p>
+        </div>
+
+        <form onSubmit={addIdea} className="flex gap-2">
+          <input
+            type="text"
+            value={ideaDraft}
+            onChange={(e) => setIdeaDraft(e.target.value)}
+            placeholder="Nieuw idee, bijv. shakshuka"
+            maxLength={100}
+            className="input-field text-sm !py-2"
+          />
+          <button type="submit" className="px-3 rounded-xl bg-blue-600 text-white font-bold hover:bg-blue-700 transition-all" title="Idee toevoegen">＋</button>
+        </form>
+
+        {ideas.length > 0 && (
+          <div className="flex flex-wrap gap-1.5">
+            {ideas.map(idea => {
+              const item: PlannerItem = { type: "idea", title: idea };
+              return (
+                <div key={idea} {...dragProps(item)} className={`px-3 py-1.5 rounded-full text-xs font-bold border border-dashed border-blue-300 dark:border-blue-700 text-blue-700 dark:text-blue-300 ${sourceClass(item)}`}>
+                  💡 {idea}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <input
+          type="text"
+          value={historyQuery}
+          onChange={(e) => setHistoryQuery(e.target.value)}
+          placeholder="Zoek in eerdere maaltijden..."
+          maxLength={100}
+          className="input-field text-sm !py-2"
+        />
+
+        {historyLoading ? (
+          <div className="space-y-2">
+            {[1, 2, 3].map(i => <div key={i} className="h-12 rounded-xl bg-slate-100 dark:bg-slate-800 animate-pulse" />)}
+          </div>
+        ) : shownHistory.length === 0 ? (
+          <p className="text-sm text-slate-400">Geen maaltijden gevonden.</p>
+        ) : (
+          <ul className="space-y-1">
+            {shownHistory.map(meal => {
+              const item: PlannerItem = { type: "meal", meal };
+              return (
+                <li key={meal.id} {...dragProps(item)} className={`flex items-center gap-3 rounded-xl p-1.5 ${sourceClass(item)}`}>
+                  <div className="relative h-10 w-10 rounded-lg overflow-hidden bg-slate-100 dark:bg-slate-800 shrink-0 pointer-events-none">
+                    <Image src={meal.imageUrl} alt={meal.title} fill sizes="40px" className="object-cover" />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-bold truncate">{isFavorite(meal, user?.uid) && "❤️ "}{meal.title}</p>
+                    <p className="text-[11px] text-slate-400">Laatst op {meal.date}</p>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </aside>
+
+      {/* De week */}
+      <section className="space-y-3">
+        <div className="flex items-center justify-between glass p-3 rounded-2xl border border-slate-200 dark:border-slate-800">
+          <button
+            onClick={() => setWeekStart(prev => addDays(prev, -7))}
+            className="h-9 w-9 rounded-xl bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 font-bold transition-all"
+            title="Vorige week"
+          >
+            ‹
+          </button>
+          <div className="text-center">
+            <h3 className="font-bold">
+              {days[0].toLocaleDateString("nl-NL", { day: "numeric", month: "short" })} – {days[6].toLocaleDateString("nl-NL", { day: "numeric", month: "short", year: "numeric" })}
+            </h3>
+            {from > todayKey || to < todayKey ? (
+              <button onClick={() => setWeekStart(startOfWeek(new Date()))} className="text-xs font-bold text-blue-600 dark:text-blue-400 hover:underline">
+                Naar deze week
+              </button>
+            ) : (
+              <p className="text-xs text-slate-400">Deze week</p>
+            )}
+          </div>
+          <button
+            onClick={() => setWeekStart(prev => addDays(prev, 7))}
+            className="h-9 w-9 rounded-xl bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 font-bold transition-all"
+            title="Volgende week"
+          >
+            ›
+          </button>
+        </div>
+
+        {planned.some(p => !p.loggedMealId && hasShoppingItems(p)) && (
+          <button
+            // Alleen wat nog gekookt moet worden; al gelogde gerechten zijn al gekocht
+            onClick={() => setShoppingSources(
+              planned.filter(p => !p.loggedMealId).sort((a, b) => a.date.localeCompare(b.date))
+            )}
+            className="w-full flex items-center justify-center gap-2 bg-orange-100 dark:bg-orange-900/30 hover:bg-orange-200 dark:hover:bg-orange-800 text-orange-700 dark:text-orange-300 px-4 py-2.5 rounded-2xl font-bold transition-all"
+          >
+            <span>🛒</span> Boodschappenlijst voor deze week
+          </button>
+        )}
+
+        {days.map(day => {
+          const dateKey = toDateKey(day);
+          const dayPlanned = planned.filter(p => p.date === dateKey);
+          return (
+            <div
+              key={dateKey}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setDragOverDate(dateKey);
+              }}
+              onDragLeave={() => setDragOverDate(prev => prev === dateKey ? null : prev)}
+              onDrop={(e) => {
+                e.preventDefault();
+                setDragOverDate(null);
+                if (dragItemRef.current) placeItem(dragItemRef.current, dateKey);
+                dragItemRef.current = null;
+              }}
+              onClick={() => {
+                if (!selectedItem) return;
+                placeItem(selectedItem, dateKey);
+                setSelectedItem(null);
+              }}
+              className={`rounded-2xl border p-3 sm:p-4 flex flex-col sm:flex-row gap-3 transition-all
+                ${dragOverDate === dateKey ? "border-blue-400 bg-blue-50 dark:bg-blue-900/20" : "border-slate-200 dark:border-slate-800 bg-white/60 dark:bg-slate-900/60"}
+                ${selectedItem ? "cursor-copy hover:border-blue-300" : ""}
+                ${isPast(dateKey) ? "opacity-60" : ""}`}
+            >
+              <div className="sm:w-24 shrink-0">
+                <p className={`font-bold capitalize ${dateKey === todayKey ? "text-blue-600 dark:text-blue-400" : ""}`}>
+                  {day.toLocaleDateString("nl-NL", { weekday: "long" })}
+                </p>
+                <p className="text-xs text-slate-400">{day.toLocaleDateString("nl-NL", { day: "numeric", month: "short" })}</p>
+              </div>
+
+              <div className="flex-1 space-y-2 min-h-[2.5rem]">
+                {dayPlanned.length === 0 && (
+                  <p className="text-sm text-slate-300 dark:text-slate-600 py-2">{selectedItem ? `Tik om “${itemTitle(selectedItem)}” hier te plannen` : "Nog niets gepland"}</p>
+                )}
+                {dayPlanned.map(plannedMeal => {
+                  const item: PlannerItem = { type: "planned", plannedMeal };
+                  const expanded = expandedId === plannedMeal.id;
+                  return (
+                    <div
+                      key={plannedMeal.id}
+                      {...dragProps(item)}
+                      className={`rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 ${sourceClass(item)}`}
+                    >
+                      <div className="flex items-center gap-3 p-2">
+                        <div className="relative h-10 w-10 rounded-lg overflow-hidden bg-slate-100 dark:bg-slate-800 shrink-0 flex items-center justify-center pointer-events-none">
+                          {plannedMeal.imageUrl
+                            ? <Image src={plannedMeal.imageUrl} alt={plannedMeal.title} fill sizes="40px" className="object-cover" />
+                            : <span>💡</span>}
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm font-bold truncate">{plannedMeal.title}</p>
+                          <p className="text-[11px] text-slate-400">gepland door {plannedMeal.userEmail.split("@")[0]}</p>
+                        </div>
+                        {plannedMeal.loggedMealId ? (
+                          <span className="text-xs font-bold text-green-600 dark:text-green-400 whitespace-nowrap">✅ Gegeten</span>
+                        ) : (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setLoggingMeal(plannedMeal);
+                            }}
+                            className="px-2.5 py-1 rounded-lg text-xs font-bold bg-blue-50 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400 hover:bg-blue-100 dark:hover:bg-blue-800/50 whitespace-nowrap"
+                            title="Foto toevoegen en als maaltijd opslaan"
+                          >
+                            📸 Loggen
+                          </button>
+                        )}
+                        {(plannedMeal.recipe || plannedMeal.shoppingList) && (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setExpandedId(expanded ? null : plannedMeal.id);
+                            }}
+                            className="px-2 py-1 rounded-lg text-xs font-bold text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800"
+                            title="Recept en boodschappen"
+                          >
+                            {expanded ? "▲" : "📖"}
+                          </button>
+                        )}
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleRemove(plannedMeal);
+                          }}
+                          className="h-7 w-7 rounded-lg text-xs text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/30"
+                          title="Uit planning halen"
+                        >
+                          ✕
+                        </button>
+                      </div>
+
+                      {expanded && (
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 px-3 pb-3 text-sm cursor-auto" onClick={(e) => e.stopPropagation()}>
+                          {plannedMeal.recipe && (
+                            <div>
+                              <p className="text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">👨‍🍳 Recept</p>
+                              <pre className="whitespace-pre-wrap font-sans text-slate-600 dark:text-slate-300">{plannedMeal.recipe}</pre>
+                            </div>
+                          )}
+                          {plannedMeal.shoppingList && (
+                            <div>
+                              <p className="text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">🛒 Boodschappen</p>
+                              <pre className="whitespace-pre-wrap font-sans text-slate-600 dark:text-slate-300">{plannedMeal.shoppingList}</pre>
+                            </div>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </section>
+
+      {shoppingSources && (
+        <ShoppingListModal sources={shoppingSources} onClose={() => setShoppingSources(null)} />
+      )}
+
+      {loggingMeal && (
+        <div className="fixed inset-0 z-40 bg-slate-900/60 backdrop-blur-sm overflow-y-auto p-4 sm:p-8">
+          <div className="max-w-5xl mx-auto">
+            <AddMealForm
+              plannedMeal={loggingMeal}
+              onMealAdded={() => setLoggingMeal(null)}
+              onCancel={() => setLoggingMeal(null)}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+"use client";
+
+import { useState } from "react";
+import toast from "react-hot-toast";
+import { useAuth } from "@/context/AuthContext";
+import { Meal } from "@/lib/meals";
+import { MAX_RATING, MAX_RATING_NOTE_LENGTH, ratingStars, saveRating } from "@/lib/ratings";
+
+interface MealRatingsProps {
+  meal: Meal;
+  onUpdate?: (updatedMeal: Meal) => void;
+}
+
+const SCORE_LABELS = ["", "Niet lekker", "Matig", "Prima", "Lekker", "Heerlijk"];
+
+// Smaakoordeel van iedere huisgenoot; de AI-score staat hier los van
+export default function MealRatings({ meal, onUpdate }: MealRatingsProps) {
+  const { user } = useAuth();
+  const myRating = user ? meal.ratings?.[user.uid] : undefined;
+  const [score, setScore] = useState<number | null>(myRating?.score ?? null);
+  const [hoverScore, setHoverScore] = useState<number | null>(null);
+  const [note, setNote] = useState(myRating?.note ?? "");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const otherRatings = Object.entries(meal.ratings ?? {})
+    .filter(([userId]) => userId !== user?.uid)
+    .sort(([, a], [, b]) => b.updatedAt.localeCompare(a.updatedAt));
+  const hasChanges = score !== (myRating?.score ?? null) || note.trim() !== (myRating?.note ?? "");
+
+  const handleSave = async (newScore: number | null) => {
+    if (!user) return;
+    setIsSaving(true);
+    try {
+      const summary = await saveRating(meal.id, user, newScore, newScore === null ? "" : note);
+      onUpdate?.({ ...meal, ...summary });
+      if (newScore === null) {
+        setScore(null);
+        setNote("");
+      }
+      toast.success(newScore === null ? "Beoordeling verwijderd" : "Beoordeling opgeslagen");
+    } catch (error) {
+      console.error(error);
+      toast.error(error instanceof Error ? error.message : "Opslaan mislukt");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const shownScore = hoverScore ?? score ?? 0;
+
+  return (
+    <section className="space-y-4 print:hidden">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-xl font-bold flex items-center gap-2">
+          <span className="text-2xl">😋</span> Smaak
+        </h3>
+        {meal.ratingAverage !== undefined && (
+          <span className="text-sm font-bold text-amber-500">
+            ★ {meal.ratingAverage} <span className="text-slate-400 font-medium">gemiddeld van {meal.ratingCount}</span>
+          </span>
+        )}
+      </div>
+
+      <div className="bg-slate-50 dark:bg-slate-800/40 p-4 rounded-2xl border border-slate-100 dark:border-slate-800/50 space-y-3">
+        <div className="flex items-center gap-3">
+          <div className="flex" onMouseLeave={() => setHoverScore(null)}>
+            {Array.from({ length: MAX_RATING }, (_, index) => index + 1).map(value => (
+              <button
+                key={value}
+                onClick={() => setScore(value)}
+                onMouseEnter={() => setHoverScore(value)}
+                className={`text-3xl leading-none px-0.5 transition-transform hover:scale-110 ${value <= shownScore ? "text-amber-400" : "text-slate-300 dark:text-slate-600"}`}
+                title={`${value} – ${SCORE_LABELS[value]}`}
+              >
+                ★
+              </button>
+            ))}
+          </div>
+          <span className="text-sm font-bold text-slate-500 dark:text-slate-400">
+            {shownScore > 0 ? SCORE_LABELS[shownScore] : "Hoe vond jij het?"}
+          </span>
+        </div>
+
+        <textarea
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="Notitie (optioneel), bijv. iets minder zout de volgende keer"
+          maxLength={MAX_RATING_NOTE_LENGTH}
+          rows={2}
+          className="input-field resize-none text-sm"
+        />
+
+        <div className="flex items-center justify-end gap-2">
+          {myRating && (
+            <button
+              onClick={() => handleSave(null)}
+              disabled={isSaving}
+              className="px-4 py-2 rounded-xl text-sm font-bold text-slate-500 hover:text-red-500 transition-colors disabled:opacity-50"
+            >
+              Verwijderen
+            </button>
+          )}
+          <button
+            onClick={() => score !== null && handleSave(score)}
+            disabled={isSaving || score === null || !hasChanges}
+            className="btn-primary !py-2 !px-4 text-sm disabled:opacity-50"
+          >
+            {isSaving ? "Opslaan..." : "Opslaan"}
+          </button>
+        </div>
+      </div>
+
+      {otherRatings.length > 0 && (
+        <ul className="space-y-2">
+          {otherRatings.map(([userId, rating]) => (
+            <li key={userId} className="flex items-start gap-3 text-sm">
+              <span className="font-bold w-24 truncate shrink-0">{rating.userEmail.split("@")[0]}</span>
+              <span className="text-amber-400 whitespace-nowrap" title={SCORE_LABELS[rating.score]}>{ratingStars(rating.score)}</span>
+              {rating.note && <span className="text-slate-500 dark:text-slate-400 italic">“{rating.note}”</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,196 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { createPortal } from "react-dom";
+import toast from "react-hot-toast";
+import { ShoppingSource, formatItemAmount, hasShoppingItems, mergeShoppingLists, shoppingListToText } from "@/lib/shoppingList";
+
+interface ShoppingListModalProps {
+  sources: ShoppingSource[];
+  onClose: () => void;
+}
+
+// Afgevinkte producten onthouden, zodat een herladen telefoon in de winkel niets kwijtraakt.
+// Ze horen bij één set maaltijden: een lijst voor andere maaltijden begint weer leeg.
+const CHECKED_STORAGE_KEY = "shopping-list-checked";
+
+interface StoredChecked {
+  sourceKey: string;
+  checked: string[];
+}
+
+const toSourceKey = (sources: ShoppingSource[]) => sources.map(source => source.id).sort().join(",");
+
+const loadChecked = (sourceKey: string): Set<string> => {
+  if (typeof window === "undefined") return new Set();
+  try {
+    const stored = JSON.parse(localStorage.getItem(CHECKED_STORAGE_KEY) ?? "null") as StoredChecked | null;
+    return new Set(stored?.sourceKey === sourceKey && Array.isArray(stored.checked) ? stored.checked : []);
+  } catch {
+    return new Set();
+  }
+};
+
+export default function ShoppingListModal({ sources, onClose }: ShoppingListModalProps) {
+  const withList = useMemo(() => sources.filter(hasShoppingItems), [sources]);
+  const [includedIds, setIncludedIds] = useState<string[]>(() => withList.map(source => source.id));
+  const sourceKey = useMemo(() => toSourceKey(withList), [withList]);
+  const [checked, setChecked] = useState<Set<string>>(() => loadChecked(sourceKey));
+
+  const included = useMemo(() => withList.filter(source => includedIds.includes(source.id)), [withList, includedIds]);
+  const groups = useMemo(() => mergeShoppingLists(included), [included]);
+  const itemCount = groups.reduce((count, group) => count + group.items.length, 0);
+  const checkedCount = groups.reduce((count, group) => count + group.items.filter(item => checked.has(item.key)).length, 0);
+
+  useEffect(() => {
+    const stored: StoredChecked = { sourceKey, checked: Array.from(checked) };
+    localStorage.setItem(CHECKED_STORAGE_KEY, JSON.stringify(stored));
+  }, [sourceKey, checked]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  const toggleItem = (key: string) => {
+    setChecked(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const listText = () => shoppingListToText(groups, included.map(source => source.title), checked);
+
+  const handleCopy = async () => {
+    // Kan geweigerd worden, bijvoorbeeld zonder toestemming of als de pagina op iOS geen focus heeft
+    try {
+      await navigator.clipboard.writeText(listText());
+      toast.success(checkedCount > 0 ? "Nog te halen producten gekopieerd!" : "Boodschappenlijst gekopieerd!");
+    } catch (err) {
+      console.error("Copy failed", err);
+      toast.error("Kopiëren mislukt. Selecteer de lijst en kopieer hem zelf.");
+    }
+  };
+
+  const handleShare = async () => {
+    if (!navigator.share) {
+      await handleCopy();
+      return;
+    }
+    try {
+      await navigator.share({ title: "Boodschappenlijst", text: listText() });
+    } catch (err) {
+      if ((err as Error).name !== "AbortError") {
+        console.error("Share failed", err);
+        await handleCopy();
+      }
+    }
+  };
+
+  const modalContent = (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 sm:p-6">
+      <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm" onClick={onClose}></div>
+
+      <div className="relative bg-white dark:bg-slate-900 w-full max-w-2xl max-h-[90vh] overflow-y-auto rounded-3xl shadow-2xl p-6 sm:p-8 space-y-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-2xl font-bold flex items-center gap-2">🛒 Boodschappenlijst</h2>
+            <p className="text-sm text-slate-400">
+              {itemCount > 0 ? `${checkedCount} van ${itemCount} afgevinkt` : "Kies maaltijden met een boodschappenlijst"}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 px-4 py-2 rounded-xl font-bold transition-all"
+          >
+            Sluiten
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-1.5">
+          {sources.map(source => {
+            const hasList = withList.includes(source);
+            const active = includedIds.includes(source.id);
+            return (
+              <button
+                key={source.id}
+                disabled={!hasList}
+                onClick={() => setIncludedIds(prev => active ? prev.filter(id => id !== source.id) : [...prev, source.id])}
+                className={`px-3 py-1 rounded-full text-xs font-bold border transition-all disabled:opacity-40 disabled:cursor-not-allowed ${active
+                  ? "bg-orange-50 dark:bg-orange-900/30 text-orange-700 dark:text-orange-300 border-orange-200 dark:border-orange-800"
+                  : "bg-white dark:bg-slate-800 text-slate-500 dark:text-slate-400 border-slate-200 dark:border-slate-700 hover:border-orange-300"}`}
+                title={hasList ? undefined : "Deze maaltijd heeft geen boodschappenlijst of ingrediënten"}
+              >
+                {active ? "✓ " : ""}{source.title}
+              </button>
+            );
+          })}
+        </div>
+
+        <div className="space-y-5">
+          {groups.map(group => (
+            <section key={group.department}>
+              <h3 className="text-xs font-bold uppercase tracking-wider text-slate-400 mb-2">{group.department}</h3>
+              <ul className="space-y-1">
+                {group.items.map(item => (
+                  <li key={item.key}>
+                    <label className="flex items-start gap-3 py-1.5 px-2 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-800/50 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={checked.has(item.key)}
+                        onChange={() => toggleItem(item.key)}
+                        className="mt-1 h-4 w-4 accent-orange-500"
+                      />
+                      <span className={`flex-1 ${checked.has(item.key) ? "line-through text-slate-400" : ""}`}>
+                        {item.amounts.length > 0 && <span className="font-bold">{formatItemAmount(item)} </span>}
+                        {item.name}
+                        {item.sources.length > 1 && (
+                          <span className="block text-[11px] text-slate-400 no-underline">voor {item.sources.join(", ")}</span>
+                        )}
+                      </span>
+                    </label>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          ))}
+        </div>
+
+        {itemCount > 0 && (
+          <div className="flex flex-wrap items-center justify-between gap-2 pt-4 border-t border-slate-100 dark:border-slate-800">
+            <button
+              onClick={() => setChecked(new Set())}
+              disabled={checkedCount === 0}
+              className="text-sm font-bold text-slate-500 hover:text-slate-700 dark:hover:text-slate-200 disabled:opacity-40"
+            >
+              Vinkjes wissen
+            </button>
+            <div className="flex gap-2">
+              <button
+                onClick={handleCopy}
+                className="flex items-center gap-2 bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-300 px-4 py-2 rounded-xl font-bold transition-all"
+              >
+                <span>📋</span> Kopieer
+              </button>
+              <button
+                onClick={handleShare}
+                className="flex items-center gap-2 bg-orange-100 dark:bg-orange-900/30 hover:bg-orange-200 dark:hover:bg-orange-800 text-orange-700 dark:text-orange-300 px-4 py-2 rounded-xl font-bold transition-all"
+              >
+                <span>🔗</span> Deel
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+
+  if (typeof document === "undefined") return null;
+
+  return createPortal(modalContent, document.body);
+}
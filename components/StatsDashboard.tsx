@@ -0,0 +1,222 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import { Meal } from "@/lib/meals";
+import {
+  StatsPeriod,
+  averageByPeriod,
+  bestAndWorstMeals,
+  compareMembers,
+  healthyShare,
+  mealsPerWeekday,
+  memberName,
+  overallAverage,
+  trendPerMember,
+} from "@/lib/stats";
+
+interface StatsDashboardProps {
+  meals: Meal[];
+  loading: boolean;
+  onSelectMeal: (meal: Meal) => void;
+}
+
+const MEMBER_COLORS = ["#2563eb", "#16a34a", "#f59e0b", "#db2777", "#7c3aed", "#0891b2"];
+
+const scoreColor = (score: number | null) =>
+  score === null ? "bg-slate-300 dark:bg-slate-700" : score >= 7 ? "bg-green-500" : score >= 4 ? "bg-yellow-500" : "bg-red-500";
+
+function Card({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="glass p-4 sm:p-6 rounded-2xl border border-slate-200 dark:border-slate-800 space-y-4">
+      <h3 className="text-sm font-bold uppercase tracking-wider text-slate-500 dark:text-slate-400">{title}</h3>
+      {children}
+    </section>
+  );
+}
+
+// Lijngrafiek met één lijn per huisgenoot; ontbrekende perioden onderbreken de lijn
+function TrendChart({ labels, series }: { labels: string[]; series: { name: string; values: (number | null)[] }[] }) {
+  const width = 100;
+  const height = 40;
+  const x = (index: number) => labels.length > 1 ? (index / (labels.length - 1)) * width : width / 2;
+  const y = (value: number) => height - (value / 10) * height;
+
+  return (
+    <div className="space-y-2">
+      <svg viewBox={`-2 -2 ${width + 4} ${height + 4}`} className="w-full h-48" preserveAspectRatio="none">
+        {[2.5, 5, 7.5].map(score => (
+          <line key={score} x1={0} x2={width} y1={y(score)} y2={y(score)} stroke="currentColor" strokeOpacity={0.1} strokeWidth={0.3} />
+        ))}
+        {series.map((member, memberIndex) => {
+          const segments: string[][] = [[]];
+          member.values.forEach((value, index) => {
+            if (value === null) segments.push([]);
+            else segments[segments.length - 1].push(`${x(index)},${y(value)}`);
+          });
+          const color = MEMBER_COLORS[memberIndex % MEMBER_COLORS.length];
+          return segments.filter(points => points.length > 0).map((points, segmentIndex) => points.length === 1 ? (
+            <circle key={`${member.name}-${segmentIndex}`} cx={points[0].split(",")[0]} cy={points[0].split(",")[1]} r={0.8} fill={color} />
+          ) : (
+            <polyline key={`${member.name}-${segmentIndex}`} points={points.join(" ")} fill="none" stroke={color} strokeWidth={2} vectorEffect="non-scaling-stroke" />
+          ));
+        })}
+      </svg>
+      <div className="flex justify-between text-[10px] text-slate-400">
+        <span>{labels[0]}</span>
+        <span>{labels[labels.length - 1]}</span>
+      </div>
+      <div className="flex flex-wrap gap-3 text-xs font-bold">
+        {series.map((member, index) => (
+          <span key={member.name} className="flex items-center gap-1.5">
+            <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: MEMBER_COLORS[index % MEMBER_COLORS.length] }} />
+            {member.name}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function MealList({ meals, onSelectMeal }: { meals: Meal[]; onSelectMeal: (meal: Meal) => void }) {
+  if (meals.length === 0) return <p className="text-sm text-slate-400">Nog geen maaltijden met een score.</p>;
+  return (
+    <ul className="space-y-2">
+      {meals.map(meal => (
+        <li key={meal.id}>
+          <button onClick={() => onSelectMeal(meal)} className="w-full flex items-center gap-3 text-left rounded-xl p-1.5 hover:bg-slate-100 dark:hover:bg-slate-800 transition-all">
+            <div className="relative h-10 w-10 rounded-lg overflow-hidden bg-slate-100 dark:bg-slate-800 shrink-0">
+              <Image src={meal.imageUrl} alt={meal.title} fill sizes="40px" className="object-cover" />
+            </div>
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-bold truncate">{meal.title}</p>
+              <p className="text-[11px] text-slate-400">{meal.date} • {memberName(meal)}</p>
+            </div>
+            <span className={`px-2 py-0.5 rounded-full text-xs font-black text-white ${scoreColor(meal.healthScore ?? null)}`}>{meal.healthScore}</span>
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default function StatsDashboard({ meals, loading, onSelectMeal }: StatsDashboardProps) {
+  const [period, setPeriod] = useState<StatsPeriod>("week");
+
+  if (loading) {
+    return (
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {[1, 2, 3, 4].map(i => <div key={i} className="card h-64 animate-pulse"></div>)}
+      </div>
+    );
+  }
+
+  if (meals.length === 0) {
+    return (
+      <div className="text-center py-20 bg-white/50 dark:bg-slate-900/50 rounded-2xl border border-dashed border-slate-300 dark:border-slate-700">
+        <p className="text-slate-500 dark:text-slate-400 font-medium">Geen maaltijden voor deze filters</p>
+      </div>
+    );
+  }
+
+  const periods = averageByPeriod(meals, period);
+  const trend = trendPerMember(meals, period);
+  const weekdays = mealsPerWeekday(meals);
+  const maxWeekday = Math.max(...weekdays.map(day => day.count), 1);
+  const { best, worst } = bestAndWorstMeals(meals);
+  const members = compareMembers(meals);
+  const average = overallAverage(meals);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        {[
+          { label: "Maaltijden", value: meals.length },
+          { label: "Gem. score", value: average ?? "–" },
+          { label: "Huisgenoten", value: members.length },
+          { label: "Score ≥ 7", value: `${Math.round(healthyShare(meals) * 100)}%` },
+        ].map(tile => (
+          <div key={tile.label} className="glass p-4 rounded-2xl border border-slate-200 dark:border-slate-800">
+            <p className="text-[10px] font-bold uppercase tracking-wider text-slate-400">{tile.label}</p>
+            <p className="text-2xl font-black">{tile.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex bg-slate-100 dark:bg-slate-800/50 p-1 rounded-xl w-fit">
+        {([["week", "Per week"], ["month", "Per maand"]] as const).map(([key, label]) => (
+          <button
+            key={key}
+            onClick={() => setPeriod(key)}
+            className={`px-4 py-1.5 rounded-lg text-sm font-bold transition-all ${period === key ? "bg-white dark:bg-slate-700 shadow-sm text-blue-600 dark:text-blue-400" : "text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200"}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <Card title={`Gemiddelde score ${period === "week" ? "per week" : "per maand"}`}>
+          <div className="flex items-end gap-1 h-48 overflow-x-auto scrollbar-hide">
+            {periods.map(p => (
+              <div key={p.key} className="flex-1 min-w-[24px] h-full flex flex-col items-center justify-end gap-1" title={`${p.label}: ${p.average ?? "–"} (${p.count} maaltijden)`}>
+                <span className="text-[10px] font-bold text-slate-500">{p.average ?? "–"}</span>
+                <div className={`w-full rounded-t-md ${scoreColor(p.average)}`} style={{ height: `${((p.average ?? 0) / 10) * 100}%` }} />
+                <span className="text-[9px] text-slate-400 whitespace-nowrap">{p.label}</span>
+              </div>
+            ))}
+          </div>
+        </Card>
+
+        <Card title="Trend per huisgenoot">
+          <TrendChart labels={trend.periods.map(p => p.label)} series={trend.members} />
+        </Card>
+
+        <Card title="Maaltijden per weekdag">
+          <div className="flex items-end gap-2 h-40">
+            {weekdays.map(day => (
+              <div key={day.label} className="flex-1 h-full flex flex-col items-center justify-end gap-1">
+                <span className="text-[10px] font-bold text-slate-500">{day.count}</span>
+                <div className="w-full rounded-t-md bg-blue-500" style={{ height: `${(day.count / maxWeekday) * 100}%` }} />
+                <span className="text-[10px] font-bold text-slate-400">{day.label}</span>
+              </div>
+            ))}
+          </div>
+        </Card>
+
+        <Card title="Huisgenoten vergeleken">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-[10px] uppercase tracking-wider text-slate-400">
+                <th className="pb-2">Wie</th>
+                <th className="pb-2 text-right">Aantal</th>
+                <th className="pb-2 text-right">Gem.</th>
+                <th className="pb-2 text-right">≥ 7</th>
+                <th className="pb-2 text-right">kcal</th>
+              </tr>
+            </thead>
+            <tbody>
+              {members.map(member => (
+                <tr key={member.userId} className="border-t border-slate-100 dark:border-slate-800">
+                  <td className="py-2 font-bold">{member.name}</td>
+                  <td className="py-2 text-right">{member.count}</td>
+                  <td className="py-2 text-right font-bold">{member.average ?? "–"}</td>
+                  <td className="py-2 text-right">{Math.round(member.healthyShare * 100)}%</td>
+                  <td className="py-2 text-right text-slate-500">{member.averageCalories ?? "–"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </Card>
+
+        <Card title="🏆 Gezondste maaltijden">
+          <MealList meals={best} onSelectMeal={onSelectMeal} />
+        </Card>
+
+        <Card title="🍟 Minst gezonde maaltijden">
+          <MealList meals={worst} onSelectMeal={onSelectMeal} />
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+"use client";
+
+import { useState } from "react";
+import { CUISINES, MAX_TAGS, MEAL_TYPES, Cuisine, MealType, cuisineInfo, mealTypeInfo, normalizeTag } from "@/lib/tags";
+
+export interface MealTags {
+  mealType: MealType | null;
+  cuisine: Cuisine | null;
+  tags: string[];
+}
+
+interface TagEditorProps extends MealTags {
+  // Zonder onChange worden alleen de gekozen tags getoond
+  onChange?: (value: MealTags) => void;
+}
+
+const chipClass = (active: boolean) => `px-2.5 py-1 rounded-full text-xs font-bold border transition-all ${active
+  ? "bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300 border-indigo-200 dark:border-indigo-800"
+  : "bg-white dark:bg-slate-800 text-slate-400 border-slate-200 dark:border-slate-700 hover:border-indigo-300"}`;
+
+export default function TagEditor({ mealType, cuisine, tags, onChange }: TagEditorProps) {
+  const [newTag, setNewTag] = useState("");
+
+  if (!onChange) {
+    const type = mealTypeInfo(mealType);
+    const kitchen = cuisineInfo(cuisine);
+    return (
+      <div className="flex flex-wrap gap-1.5">
+        {type && <span className={chipClass(true)}>{type.emoji} {type.label}</span>}
+        {kitchen && <span className={chipClass(true)}>{kitchen.emoji} {kitchen.label}</span>}
+        {tags.map(tag => <span key={tag} className={chipClass(false)}>#{tag}</span>)}
+      </div>
+    );
+  }
+
+  const value = { mealType, cuisine, tags };
+
+  const addTag = () => {
+    const tag = normalizeTag(newTag);
+    setNewTag("");
+    if (!tag || tags.includes(tag) || tags.length >= MAX_TAGS) return;
+    onChange({ ...value, tags: [...tags, tag] });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-1.5">
+        {MEAL_TYPES.map(type => (
+          <button
+            key={type.key}
+            type="button"
+            onClick={() => onChange({ ...value, mealType: mealType === type.key ? null : type.key })}
+            className={chipClass(mealType === type.key)}
+          >
+            {type.emoji} {type.label}
+          </button>
+        ))}
+      </div>
+
+      <select
+        value={cuisine ?? ""}
+        onChange={(e) => onChange({ ...value, cuisine: (e.target.value || null) as Cuisine | null })}
+        className="input-field text-sm"
+      >
+        <option value="">Keuken onbekend</option>
+        {CUISINES.map(kitchen => (
+          <option key={kitchen.key} value={kitchen.key}>{kitchen.emoji} {kitchen.label}</option>
+        ))}
+      </select>
+
+      <div className="flex flex-wrap items-center gap-1.5">
+        {tags.map(tag => (
+          <button
+            key={tag}
+            type="button"
+            onClick={() => onChange({ ...value, tags: tags.filter(t => t !== tag) })}
+            className={`${chipClass(true)} hover:line-through`}
+            title="Tag verwijderen"
+          >
+            #{tag} ✕
+          </button>
+        ))}
+        {tags.length < MAX_TAGS && (
+          <input
+            type="text"
+            placeholder="+ tag"
+            value={newTag}
+            onChange={(e) => setNewTag(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" || e.key === ",") {
+                e.preventDefault();
+                addTag();
+              }
+            }}
+            onBlur={addTag}
+            className="px-2.5 py-1 rounded-full text-xs border border-dashed border-slate-300 dark:border-slate-600 bg-transparent w-24 focus:outline-none focus:border-indigo-400"
+          />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { createHash } from "crypto";
+import { hasServiceAccount } from "@/lib/auth/serviceAccount";
+import { createExpiringMap } from "@/lib/expiringMap";
+import { getServerDocument, setServerDocument } from "@/lib/firestoreServer";
+import type { AnalysisImage, MealAnalysis } from "./types";
+
+const COLLECTION = "analysis_cache";
+const DEFAULT_TTL_HOURS = 24;
+
+interface CacheEntry {
+  result: MealAnalysis;
+  createdAt: number;
+}
+
+interface AnalysisCacheStore {
+  get(key: string): Promise<CacheEntry | null>;
+  set(key: string, entry: CacheEntry, ttlMs: number): Promise<void>;
+}
+
+// Snelle eerste laag vóór Firestore, en zonder service account de enige cache: een instantie
+// herkent dan alleen foto's die hij zelf sinds zijn laatste cold start heeft geanalyseerd
+const createMemoryCache = (): AnalysisCacheStore => {
+  const entries = createExpiringMap<CacheEntry>(500);
+
+  return {
+    async get(key) {
+      return entries.get(key) ?? null;
+    },
+    async set(key, entry, ttlMs) {
+      entries.set(key, entry, ttlMs);
+    },
+  };
+};
+
+/**
+ * Gedeeld tussen serverinstanties; expiresAt kan als TTL-veld in Firestore worden ingesteld.
+ * Alleen de server (service account) leest en schrijft analysis_cache: in de rules mag geen
+ * client erbij, anders kan iemand resultaten klaarzetten die aan iedereen geserveerd worden.
+ */
+const createFirestoreCache = (): AnalysisCacheStore => ({
+  async get(key) {
+    const data = await getServerDocument(COLLECTION, key);
+    if (!data || !(data.expiresAt instanceof Date) || data.expiresAt.getTime() < Date.now()) return null;
+    // Als JSON string bewaard: Firestore accepteert geen undefined velden
+    return { result: JSON.parse(data.result as string), createdAt: (data.createdAt as Date).getTime() };
+  },
+  async set(key, entry, ttlMs) {
+    await setServerDocument(COLLECTION, key, {
+      result: JSON.stringify(entry.result),
+      createdAt: new Date(entry.createdAt),
+      expiresAt: new Date(Date.now() + ttlMs),
+    });
+  },
+});
+
+// Eerst in het geheugen van deze instantie kijken, daarna in Firestore
+const memoryCache = createMemoryCache();
+const createSharedCache = () => {
+  if (process.env.ANALYSIS_CACHE_STORE === "memory") return null;
+  if (!hasServiceAccount()) {
+    console.error("[AnalysisCache] FIREBASE_CLIENT_EMAIL/FIREBASE_PRIVATE_KEY missing: analyses are only cached in memory per instance.");
+    return null;
+  }
+  return createFirestoreCache();
+};
+const sharedCache = createSharedCache();
+
+// Bewaartijd via ANALYSIS_CACHE_TTL_HOURS (standaard 24 uur, 0 zet de cache uit)
+const getTtlMs = () => {
+  const hours = Number(process.env.ANALYSIS_CACHE_TTL_HOURS ?? DEFAULT_TTL_HOURS);
+  return Number.isFinite(hours) && hours > 0 ? hours * 60 * 60 * 1000 : 0;
+};
+
+/**
+ * Sleutel op basis van de inhoud van de (gecomprimeerde) foto's en het aantal personen,
+ * zodat dezelfde foto nogmaals uploaden hetzelfde resultaat oplevert.
+ */
+export function imageCacheKey(images: AnalysisImage[], servings: number): string {
+  const hash = createHash("sha256").update(`servings:${servings}`);
+  for (const image of images) {
+    hash.update(`|${image.mimeType}|`).update(image.data);
+  }
+  return hash.digest("hex");
+}
+
+// Geeft een eerder resultaat terug, met cachedAt zodat de UI dat kan tonen
+export async function getCachedAnalysis(key: string): Promise<MealAnalysis | null> {
+  if (!getTtlMs()) return null;
+
+  try {
+    const entry = (await memoryCache.get(key)) ?? (sharedCache ? await sharedCache.get(key) : null);
+    if (!entry) return null;
+    return { ...entry.result, cachedAt: new Date(entry.createdAt).toISOString() };
+  } catch (error) {
+    // Cache is een optimalisatie: bij fouten gewoon opnieuw analyseren
+    console.warn("Analysis cache lookup failed:", error);
+    return null;
+  }
+}
+
+export async function cacheAnalysis(key: string, result: MealAnalysis): Promise<void> {
+  const ttlMs = getTtlMs();
+  if (!ttlMs) return;
+
+  const entry = { result, createdAt: Date.now() };
+  try {
+    await memoryCache.set(key, entry, ttlMs);
+    if (sharedCache) await sharedCache.set(key, entry, ttlMs);
+  } catch (error) {
+    console.warn("Storing analysis in cache failed:", error);
+  }
+}
@@ -0,0 +1,173 @@
+import { AnalysisError, AnalysisImage, AnalysisProvider, MealAnalysis, PartialMealAnalysis } from "./types";
+import { buildImageAnalysisPrompt, buildRepairPrompt, buildTextAnalysisPrompt } from "./prompt";
+import { parseMealAnalysis } from "./schema";
+import { parsePartialAnalysis } from "./partial";
+import { cacheAnalysis, getCachedAnalysis, imageCacheKey } from "./cache";
+import { createGeminiProvider } from "./providers/gemini";
+import { createMockProvider } from "./providers/mock";
+import { MAX_MEAL_PHOTOS } from "@/lib/meals";
+import { DEFAULT_SERVINGS, clampServings } from "@/lib/servings";
+
+export { AnalysisError } from "./types";
+export type { AnalysisImage, AnalysisProvider, AnalysisStreamEvent, FoodAnalysis, MealAnalysis, PartialMealAnalysis } from "./types";
+
+const MAX_DESCRIPTION_LENGTH = 500;
+
+export interface AnalysisRunOptions {
+  onPartial?: (partial: PartialMealAnalysis) => void; // wordt aangeroepen zodra er nieuwe velden binnen zijn
+  signal?: AbortSignal; // afbreken als de gebruiker annuleert of de verbinding verbreekt
+}
+
+const PROVIDERS: Record<string, () => AnalysisProvider> = {
+  gemini: createGeminiProvider,
+  mock: createMockProvider,
+};
+
+// Kies de provider via AI_PROVIDER (standaard: gemini)
+export function getAnalysisProvider(): AnalysisProvider {
+  const name = (process.env.AI_PROVIDER || "gemini").toLowerCase();
+  const factory = PROVIDERS[name];
+  if (!factory) {
+    throw new AnalysisError(`Onbekende AI provider: ${name}`);
+  }
+  return factory();
+}
+
+const toAnalysisError = (error: unknown, signal?: AbortSignal): AnalysisError => {
+  if (error instanceof AnalysisError) return error;
+
+  if (signal?.aborted) {
+    return new AnalysisError("Analyse geannuleerd", 499);
+  }
+
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  const errorName = error instanceof Error ? error.name : undefined;
+  const errorStatus = typeof error === "object" && error && "status" in error ? (error as { status?: unknown }).status : undefined;
+
+  if (errorStatus === 429) {
+    return new AnalysisError("AI limiet bereikt (Rate limit). Probeer het over een minuutje weer.", 429);
+  }
+
+  if (errorMessage.includes("API key")) {
+    return new AnalysisError("Configuratie fout: Ongeldige API key.");
+  }
+
+  if (errorName === "AbortError" || errorMessage.includes("timeout")) {
+    return new AnalysisError("De analyse duurde te lang (Timeout). Probeer het met een kleinere foto.", 504);
+  }
+
+  return new AnalysisError("Server Fout: " + (errorMessage || "De server gaf een onverwachte reactie. Controleer je internetverbinding en probeer het opnieuw."));
+};
+
+// Streamt de eerste poging als de provider dat kan, en meldt tussentijds de velden die al binnen zijn
+const generateFirst = async (provider: AnalysisProvider, prompt: string, images: AnalysisImage[], { onPartial, signal }: AnalysisRunOptions) => {
+  if (!onPartial || !provider.stream) {
+    return provider.generate(prompt, images, signal);
+  }
+
+  let text = "";
+  let lastPartial = "";
+  for await (const chunk of provider.stream(prompt, images, signal)) {
+    text += chunk;
+    const partial = parsePartialAnalysis(text);
+    const serialized = JSON.stringify(partial);
+    if (serialized !== lastPartial && serialized !== "{}") {
+      lastPartial = serialized;
+      onPartial(partial);
+    }
+  }
+  return text;
+};
+
+const runAnalysis = async (prompt: string, images: AnalysisImage[], servings: number, options: AnalysisRunOptions): Promise<MealAnalysis> => {
+  try {
+    const provider = getAnalysisProvider();
+    const text = await generateFirst(provider, prompt, images, options);
+
+    if (!text) {
+      throw new AnalysisError("AI gaf een lege reactie terug.");
+    }
+
+    const first = parseMealAnalysis(text, servings);
+    if (first.ok) return first.value;
+
+    console.warn(`Invalid ${provider.name} response (field "${first.field}": ${first.message}), retrying with repair prompt`);
+    const repairedText = await provider.generate(buildRepairPrompt(prompt, text, first.field, first.message), images, options.signal);
+    const repaired = parseMealAnalysis(repairedText || "", servings);
+    if (repaired.ok) return repaired.value;
+
+    console.error(`Repair of ${provider.name} response failed:`, repairedText);
+    throw new AnalysisError(`AI reactie was ongeldig (veld "${repaired.field}": ${repaired.message}).`, 502, repaired.field);
+  } catch (error: unknown) {
+    if (!options.signal?.aborted) console.error("Meal analysis failed:", error);
+    throw toAnalysisError(error, options.signal);
+  }
+};
+
+// De invoercontroles staan los, zodat de route en de server actions ze vóór de rate limit
+// kunnen doen: een ongeldig verzoek mag geen analyse van het uurlimiet kosten.
+export function validateAnalysisImages(images: AnalysisImage[]): void {
+  if (!Array.isArray(images) || images.length === 0 || images.some(image => !image?.data || !image?.mimeType)) {
+    throw new AnalysisError("Ongeldige invoer voor analyse", 400);
+  }
+
+  if (images.length > MAX_MEAL_PHOTOS) {
+    throw new AnalysisError(`Maximaal ${MAX_MEAL_PHOTOS} foto's per analyse`, 400);
+  }
+
+  // Limit base64 size to prevent huge payloads (e.g. 10MB)
+  if (images.reduce((total, image) => total + image.data.length, 0) > 15 * 1024 * 1024) {
+    throw new AnalysisError("Afbeelding is te groot voor analyse", 413);
+  }
+}
+
+// Geeft de opgeschoonde omschrijving terug
+export function validateAnalysisDescription(description: string): string {
+  const cleanDescription = typeof description === "string" ? description.trim() : "";
+  if (cleanDescription.length < 3) {
+    throw new AnalysisError("Beschrijf de maaltijd in een paar woorden", 400);
+  }
+
+  if (cleanDescription.length > MAX_DESCRIPTION_LENGTH) {
+    throw new AnalysisError(`Omschrijving mag maximaal ${MAX_DESCRIPTION_LENGTH} tekens zijn`, 400);
+  }
+  return cleanDescription;
+}
+
+/**
+ * Zoekt een eerdere analyse van exact dezelfde foto's. Aanroepers doen dit bewust vóór de
+ * rate limit, zodat een cache hit geen analyse van het uurlimiet kost. Dat is veilig omdat
+ * alleen de server de cache vult (zie cache.ts): elk resultaat is eerder binnen de limiet
+ * door de AI gemaakt, en een hit kost zelf geen AI-aanroep.
+ */
+export async function findCachedImageAnalysis(images: AnalysisImage[], servings = DEFAULT_SERVINGS): Promise<MealAnalysis | null> {
+  if (!Array.isArray(images) || images.length === 0 || images.some(image => !image?.data || !image?.mimeType)) {
+    return null;
+  }
+  return getCachedAnalysis(imageCacheKey(images, clampServings(servings)));
+}
+
+/**
+ * Analyseert een of meer foto's van dezelfde maaltijd met de geconfigureerde provider.
+ * Wordt gedeeld door de server action en de /api/analyze fallback,
+ * zodat beide paden exact hetzelfde resultaat geven.
+ */
+export async function analyzeMealImages(images: AnalysisImage[], servings = DEFAULT_SERVINGS, options: AnalysisRunOptions = {}): Promise<MealAnalysis> {
+  validateAnalysisImages(images);
+
+  const cleanServings = clampServings(servings);
+  const result = await runAnalysis(buildImageAnalysisPrompt(cleanServings), images, cleanServings, options);
+  await cacheAnalysis(imageCacheKey(images, cleanServings), result);
+  return result;
+}
+
+/**
+ * Analyseert een maaltijd op basis van alleen een tekstuele omschrijving,
+ * bijvoorbeeld "pasta pesto met kip en spinazie". Levert hetzelfde formaat als een foto-analyse.
+ */
+export async function analyzeMealDescription(description: string, servings = DEFAULT_SERVINGS, options: AnalysisRunOptions = {}): Promise<MealAnalysis> {
+  const cleanDescription = validateAnalysisDescription(description);
+
+  const cleanServings = clampServings(servings);
+  return runAnalysis(buildTextAnalysisPrompt(cleanDescription, cleanServings), [], cleanServings, options);
+}
@@ -0,0 +1,97 @@
+import { Ingredient, toIngredient } from "@/lib/ingredients";
+import type { PartialMealAnalysis } from "./types";
+
+const STRING_FIELDS = ["title", "details", "recipe"] as const;
+
+// Leest een (mogelijk nog niet afgesloten) JSON string vanaf start; geeft de tekst en of de string compleet is
+const readString = (text: string, start: number): { value: string; complete: boolean; end: number } => {
+  let raw = "";
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (char === "\\") {
+      // Escape-reeks die nog niet volledig binnen is: wachten op de volgende chunk
+      const escape = text[i + 1] === "u" ? text.slice(i, i + 6) : text.slice(i, i + 2);
+      if (escape.length < 2 || (escape[1] === "u" && escape.length < 6)) break;
+      raw += escape;
+      i += escape.length - 1;
+    } else if (char === "\"") {
+      return { value: decode(raw), complete: true, end: i + 1 };
+    } else {
+      raw += char;
+    }
+  }
+  return { value: decode(raw), complete: false, end: text.length };
+};
+
+const decode = (raw: string) => {
+  try {
+    return JSON.parse(`"${raw}"`) as string;
+  } catch {
+    return raw;
+  }
+};
+
+// Leest een JSON object vanaf de openingsaccolade; pas compleet als de afsluitende accolade binnen is
+const readObject = (text: string, start: number): { value: unknown; complete: boolean; end: number } => {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (char === "\"") {
+      const item = readString(text, i + 1);
+      if (!item.complete) break;
+      i = item.end - 1;
+    } else if (char === "{") {
+      depth++;
+    } else if (char === "}" && --depth === 0) {
+      try {
+        return { value: JSON.parse(text.slice(start, i + 1)), complete: true, end: i + 1 };
+      } catch {
+        break;
+      }
+    }
+  }
+  return { value: null, complete: false, end: text.length };
+};
+
+const findValueStart = (text: string, key: string) => {
+  const match = new RegExp(`"${key}"\\s*:\\s*`).exec(text);
+  return match ? match.index + match[0].length : -1;
+};
+
+/**
+ * Haalt titel, omschrijving, ingrediënten en recept uit een half binnengekomen AI antwoord.
+ * Tekstvelden worden ook tijdens het schrijven al teruggegeven, ingrediënten pas als hun object compleet is.
+ */
+export function parsePartialAnalysis(text: string): PartialMealAnalysis {
+  const partial: PartialMealAnalysis = {};
+
+  for (const key of STRING_FIELDS) {
+    const start = findValueStart(text, key);
+    if (start === -1 || text[start] !== "\"") continue;
+    const { value } = readString(text, start + 1);
+    if (value) partial[key] = value;
+  }
+
+  const listStart = findValueStart(text, "ingredients");
+  if (listStart !== -1 && text[listStart] === "[") {
+    const ingredients: Ingredient[] = [];
+    let i = listStart + 1;
+    while (i < text.length) {
+      const char = text[i];
+      if (char === "]") break;
+      // Objecten zoals gevraagd, losse strings van modellen die zich niet aan het formaat houden
+      if (char === "{" || char === "\"") {
+        const item = char === "{" ? readObject(text, i) : readString(text, i + 1);
+        if (!item.complete) break;
+        const ingredient = toIngredient(item.value);
+        if (ingredient) ingredients.push(ingredient);
+        i = item.end;
+        continue;
+      }
+      i++;
+    }
+    if (ingredients.length > 0) partial.ingredients = ingredients;
+  }
+
+  return partial;
+}
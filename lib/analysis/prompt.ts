@@ -0,0 +1,59 @@
+import { servingsLabel } from "@/lib/servings";
+import { ALLERGENS, DIET_LABELS } from "@/lib/dietary";
+import { CUISINES, MEAL_TYPES } from "@/lib/tags";
+import { DEPARTMENTS } from "@/lib/ingredients";
+
+// Gedeeld antwoordformaat voor zowel foto- als tekstanalyse
+const buildResponseFormat = (servings: number) => `Als het GEEN maaltijd is, retourneer dan { "isFood": false }. 
+    Als het WEL een maaltijd is, retourneer dan een JSON object met de volgende velden in het Nederlands: 
+    { 
+      "isFood": true, 
+      "title": "Een korte, pakkende titel van het gerecht (max 6 woorden)",
+      "details": "Een gedetailleerde beschrijving van het gerecht", 
+      "ingredients": [
+        {
+          "name": "naam van het ingrediënt, zonder hoeveelheid",
+          "quantity": "hoeveelheid voor ${servingsLabel(servings)} als getal, of null als die er niet toe doet (zout, peper)",
+          "unit": "eenheid zoals g, ml, el, tl, teentje, potje of bos; leeg voor stuks",
+          "note": "optionele toevoeging, bijv. fijngesneden of naar smaak",
+          "department": "afdeling van de Albert Heijn, één van: ${DEPARTMENTS.map(d => d.name).join(", ")}, Overig"
+        }
+      ], 
+      "recipe": "stap-voor-stap bereidingswijze", 
+      "shoppingList": "een overzichtelijke boodschappenlijst voor ${servingsLabel(servings)}, gegroepeerd per afdeling van de Albert Heijn (bijv. Groenten, Zuivel, Houdbaar)",
+      "healthScore": "Een streng, realistisch cijfer tussen 1 en 10. Wees kritisch: 10 is alleen voor perfect uitgebalanceerde, supergezonde maaltijden met veel groenten en weinig bewerkte producten. Een pizza of patat is typisch 4-5, een standaard pasta 6-7.",
+      "nutrition": {
+        "calories": "geschatte kcal per portie (getal)",
+        "protein": "gram eiwit per portie (getal)",
+        "carbs": "gram koolhydraten per portie (getal)",
+        "fat": "gram vet per portie (getal)",
+        "fiber": "gram vezels per portie (getal)",
+        "salt": "gram zout per portie (getal)",
+        "confidence": "hoe zeker je bent van deze schatting: laag, gemiddeld of hoog"
+      },
+      "allergens": ["alle EU-allergenen die (waarschijnlijk) in het gerecht zitten, alleen uit: ${ALLERGENS.map(a => a.key).join(", ")}"],
+      "dietLabels": ["dieetlabels die zeker van toepassing zijn, alleen uit: ${DIET_LABELS.map(d => d.key).join(", ")}"],
+      "mealType": "het soort maaltijd, één van: ${MEAL_TYPES.map(t => t.key).join(", ")}",
+      "cuisine": "de keuken, één van: ${CUISINES.map(c => c.key).join(", ")}",
+      "tags": ["maximaal 4 korte tags in kleine letters, bijv. snel, ovenschotel, comfort food"]
+    } 
+    Retourneer ALLEEN de JSON.`;
+
+export const buildImageAnalysisPrompt = (servings: number) => `Analyseer deze afbeelding(en) van een maaltijd. 
+    Meerdere foto's tonen hetzelfde gerecht, bijvoorbeeld van bovenaf, als close-up of de ingrediënten vóór het koken. Combineer ze tot één analyse.
+    ${buildResponseFormat(servings)}`;
+
+// Voor maaltijden zonder foto: de gebruiker beschrijft wat er gegeten is
+export const buildTextAnalysisPrompt = (description: string, servings: number) => `Analyseer deze omschrijving van een maaltijd: "${description.replace(/"/g, "'")}". 
+    Ga uit van een gangbare, realistische bereiding en vul ontbrekende details zelf aan.
+    ${buildResponseFormat(servings)}`;
+
+// Eenmalige herstelpoging als de eerste reactie niet aan het schema voldeed
+export const buildRepairPrompt = (prompt: string, previous: string, field: string, message: string) => `${prompt}
+
+    Je vorige antwoord voldeed niet aan het gevraagde formaat.
+    Fout in veld "${field}": ${message}.
+    Vorig antwoord:
+    ${previous.substring(0, 4000)}
+
+    Corrigeer dit en retourneer ALLEEN geldige JSON volgens het formaat hierboven.`;
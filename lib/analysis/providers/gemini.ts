@@ -0,0 +1,29 @@
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import { AnalysisError, AnalysisProvider } from "../types";
+
+const DEFAULT_MODEL = "gemini-2.5-flash-lite";
+
+export function createGeminiProvider(): AnalysisProvider {
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!apiKey) {
+    throw new AnalysisError("GEMINI_API_KEY is not set");
+  }
+
+  const genAI = new GoogleGenerativeAI(apiKey);
+  const model = genAI.getGenerativeModel({ model: process.env.GEMINI_MODEL || DEFAULT_MODEL });
+
+  return {
+    name: "gemini",
+    async generate(prompt, images, signal) {
+      const result = await model.generateContent([prompt, ...images.map(image => ({ inlineData: image }))], { signal });
+      const response = await result.response;
+      return response.text();
+    },
+    async *stream(prompt, images, signal) {
+      const result = await model.generateContentStream([prompt, ...images.map(image => ({ inlineData: image }))], { signal });
+      for await (const chunk of result.stream) {
+        yield chunk.text();
+      }
+    },
+  };
+}
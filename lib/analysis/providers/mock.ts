@@ -0,0 +1,94 @@
+import { DEFAULT_SERVINGS, scaleQuantities } from "@/lib/servings";
+import { scaleIngredients } from "@/lib/ingredients";
+import { AnalysisImage, AnalysisProvider, FoodAnalysis } from "../types";
+
+// Vaste voorbeeldresultaten (voor 2 personen) voor lokaal ontwikkelen en testen zonder API key
+const FIXTURES: Omit<FoodAnalysis, "servings">[] = [
+  {
+    isFood: true,
+    title: "Pasta pesto met kip",
+    details: "Volkoren penne met groene pesto, gebakken kipfilet, spinazie en cherrytomaatjes.",
+    ingredients: [
+      { name: "volkoren penne", quantity: 300, unit: "g", department: "Houdbaar" },
+      { name: "groene pesto", quantity: 1, unit: "potje", department: "Houdbaar" },
+      { name: "kipfilet", quantity: 300, unit: "g", note: "in blokjes", department: "Vlees & vis" },
+      { name: "spinazie", quantity: 200, unit: "g", department: "Groente & fruit" },
+      { name: "cherrytomaten", quantity: 250, unit: "g", note: "gehalveerd", department: "Groente & fruit" },
+      { name: "Parmezaanse kaas", quantity: 50, unit: "g", note: "geraspt", department: "Kaas, vleeswaren & tapas" },
+    ],
+    recipe: "1. Kook de penne beetgaar.\n2. Bak de kipfilet in blokjes goudbruin.\n3. Laat de spinazie slinken in de pan.\n4. Meng alles met de pesto en de gehalveerde tomaatjes.\n5. Serveer met geraspte Parmezaanse kaas.",
+    shoppingList: "Groenten:\n- 200g spinazie\n- 250g cherrytomaten\n\nVlees:\n- 300g kipfilet\n\nHoudbaar:\n- 300g volkoren penne\n- 1 potje groene pesto\n\nZuivel:\n- 50g Parmezaanse kaas",
+    healthScore: 7,
+    nutrition: { calories: 640, protein: 42, carbs: 62, fat: 24, fiber: 8, salt: 1.6, confidence: "gemiddeld" },
+    allergens: ["gluten", "milk", "nuts"],
+    dietLabels: [],
+    mealType: "diner",
+    cuisine: "italiaans",
+    tags: ["pasta", "snel"],
+  },
+  {
+    isFood: true,
+    title: "Boerenkool stamppot met rookworst",
+    details: "Klassieke Hollandse stamppot van aardappel en boerenkool met een rookworst en jus.",
+    ingredients: [
+      { name: "kruimige aardappelen", quantity: 1, unit: "kg", department: "Groente & fruit" },
+      { name: "boerenkool", quantity: 500, unit: "g", department: "Groente & fruit" },
+      { name: "rookworst", quantity: 1, unit: "", department: "Vlees & vis" },
+      { name: "melk", quantity: 100, unit: "ml", department: "Zuivel & eieren" },
+      { name: "boter", quantity: 25, unit: "g", department: "Zuivel & eieren" },
+      { name: "jus", quantity: null, unit: "", note: "naar smaak", department: "Houdbaar" },
+    ],
+    recipe: "1. Kook de aardappelen met de boerenkool erop gaar.\n2. Verwarm de rookworst.\n3. Stamp de aardappelen met boerenkool, melk en boter.\n4. Serveer met plakjes rookworst en jus.",
+    shoppingList: "Groenten:\n- 1kg kruimige aardappelen\n- 500g boerenkool\n\nVlees:\n- 1 rookworst\n\nZuivel:\n- 100ml melk\n- 25g boter",
+    healthScore: 5,
+    nutrition: { calories: 780, protein: 28, carbs: 70, fat: 40, fiber: 9, salt: 3.2, confidence: "gemiddeld" },
+    allergens: ["milk", "mustard", "celery"],
+    dietLabels: [],
+    mealType: "diner",
+    cuisine: "nederlands",
+    tags: ["stamppot", "winter", "comfort food"],
+  },
+];
+
+const hash = (value: string) => {
+  let result = 0;
+  for (let i = 0; i < value.length; i++) {
+    result = (result * 31 + value.charCodeAt(i)) >>> 0;
+  }
+  return result;
+};
+
+// Simuleert een model dat zijn antwoord in stukjes terugstuurt
+const CHUNK_SIZE = 40;
+const CHUNK_DELAY_MS = 60;
+
+const buildResponse = (prompt: string, images: AnalysisImage[]) => {
+  // Dezelfde foto('s) of omschrijving leveren altijd hetzelfde resultaat op
+  const seed = images.length > 0 ? images.map(image => image.data).join("") : prompt;
+  const fixture = FIXTURES[hash(seed) % FIXTURES.length];
+
+  // Schaal mee met het aantal personen uit de prompt, net als een echt model
+  const servings = Number(prompt.match(/boodschappenlijst voor (\d+)/)?.[1] ?? DEFAULT_SERVINGS);
+  return JSON.stringify({
+    ...fixture,
+    ingredients: scaleIngredients(fixture.ingredients, DEFAULT_SERVINGS, servings),
+    shoppingList: scaleQuantities(fixture.shoppingList, DEFAULT_SERVINGS, servings),
+  });
+};
+
+export function createMockProvider(): AnalysisProvider {
+  return {
+    name: "mock",
+    async generate(prompt, images) {
+      return buildResponse(prompt, images);
+    },
+    async *stream(prompt, images, signal) {
+      const text = buildResponse(prompt, images);
+      for (let i = 0; i < text.length; i += CHUNK_SIZE) {
+        if (signal?.aborted) throw new DOMException("Aborted", "AbortError");
+        await new Promise(resolve => setTimeout(resolve, CHUNK_DELAY_MS));
+        yield text.slice(i, i + CHUNK_SIZE);
+      }
+    },
+  };
+}
@@ -0,0 +1,104 @@
+import { normalizeNutrition } from "@/lib/nutrition";
+import { normalizeAllergens, normalizeDietLabels } from "@/lib/dietary";
+import { normalizeCuisine, normalizeMealType, normalizeTags } from "@/lib/tags";
+import { Ingredient, MAX_INGREDIENTS, toIngredient } from "@/lib/ingredients";
+import { MealAnalysis } from "./types";
+
+export type ValidationResult =
+  | { ok: true; value: MealAnalysis }
+  | { ok: false; field: string; message: string };
+
+const fail = (field: string, message: string): ValidationResult => ({ ok: false, field, message });
+
+const toText = (value: unknown): string | null => {
+  if (typeof value === "string") return value.trim();
+  // Sommige modellen geven stappen als array terug
+  if (Array.isArray(value) && value.every(v => typeof v === "string")) return value.join("\n").trim();
+  return null;
+};
+
+/**
+ * Haalt de JSON uit de AI-tekst en controleert die tegen het strikte schema.
+ * Kleine afwijkingen worden gecorrigeerd (healthScore als string, ingrediënten als tekst),
+ * al het andere levert het ongeldige veld op zodat we gericht kunnen herstellen.
+ */
+export function parseMealAnalysis(text: string, servings: number): ValidationResult {
+  // Clean up markdown code blocks if present
+  const cleanText = text.replace(/```(?:json)?\n?|\n?```/g, "").trim();
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(cleanText);
+  } catch {
+    return fail("json", "reactie is geen geldige JSON");
+  }
+
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return fail("json", "reactie is geen JSON object");
+  }
+  const input = raw as Record<string, unknown>;
+
+  const isFood = input.isFood === "true" ? true : input.isFood === "false" ? false : input.isFood;
+  if (typeof isFood !== "boolean") {
+    return fail("isFood", "moet true of false zijn");
+  }
+  if (!isFood) {
+    return { ok: true, value: { isFood: false } };
+  }
+
+  const title = toText(input.title);
+  if (!title) {
+    return fail("title", "moet een niet-lege tekst zijn");
+  }
+
+  const details = toText(input.details ?? "");
+  if (details === null) return fail("details", "moet een tekst zijn");
+  const recipe = toText(input.recipe ?? "");
+  if (recipe === null) return fail("recipe", "moet een tekst zijn");
+  const shoppingList = toText(input.shoppingList ?? "");
+  if (shoppingList === null) return fail("shoppingList", "moet een tekst zijn");
+
+  if (!Array.isArray(input.ingredients)) {
+    return fail("ingredients", "moet een lijst met ingrediënt-objecten zijn");
+  }
+  const ingredients: Ingredient[] = [];
+  for (let i = 0; i < Math.min(input.ingredients.length, MAX_INGREDIENTS); i++) {
+    // Een losse string ("200g spinazie") lezen we zelf in
+    const ingredient = toIngredient(input.ingredients[i]);
+    if (ingredient === null) return fail(`ingredients[${i}]`, "moet een object met een niet-lege name zijn");
+    ingredients.push(ingredient);
+  }
+
+  const score = typeof input.healthScore === "number" ? input.healthScore : parseFloat(String(input.healthScore ?? "").replace(",", "."));
+  if (!Number.isFinite(score)) {
+    return fail("healthScore", "moet een getal tussen 1 en 10 zijn");
+  }
+
+  if (input.allergens !== undefined && !Array.isArray(input.allergens)) {
+    return fail("allergens", "moet een lijst met allergenen zijn");
+  }
+  if (input.dietLabels !== undefined && !Array.isArray(input.dietLabels)) {
+    return fail("dietLabels", "moet een lijst met dieetlabels zijn");
+  }
+
+  return {
+    ok: true,
+    value: {
+      isFood: true,
+      title: title.substring(0, 100),
+      details,
+      ingredients,
+      recipe,
+      shoppingList,
+      servings,
+      healthScore: Math.min(Math.max(Math.round(score), 1), 10),
+      nutrition: normalizeNutrition(input.nutrition),
+      allergens: normalizeAllergens(input.allergens),
+      dietLabels: normalizeDietLabels(input.dietLabels),
+      // Tags zijn een suggestie: onbekende waarden laten we vallen in plaats van opnieuw te vragen
+      mealType: normalizeMealType(input.mealType),
+      cuisine: normalizeCuisine(input.cuisine),
+      tags: normalizeTags(input.tags),
+    },
+  };
+}
@@ -0,0 +1,59 @@
+import type { Nutrition } from "@/lib/nutrition";
+import type { Allergen, DietLabel } from "@/lib/dietary";
+import type { Cuisine, MealType } from "@/lib/tags";
+import type { Ingredient } from "@/lib/ingredients";
+
+export interface AnalysisImage {
+  data: string; // base64 zonder data-URL prefix
+  mimeType: string;
+}
+
+// Een AI provider hoeft alleen ruwe tekst terug te geven; parsen gebeurt centraal
+export interface AnalysisProvider {
+  name: string;
+  generate(prompt: string, images: AnalysisImage[], signal?: AbortSignal): Promise<string>;
+  // Optioneel: levert de tekst in stukjes, zodat velden al tijdens het genereren getoond kunnen worden
+  stream?(prompt: string, images: AnalysisImage[], signal?: AbortSignal): AsyncIterable<string>;
+}
+
+export interface FoodAnalysis {
+  isFood: true;
+  title: string;
+  details: string;
+  ingredients: Ingredient[];
+  recipe: string;
+  shoppingList: string;
+  servings: number; // aantal personen voor ingrediënten en boodschappenlijst
+  healthScore: number; // 1 t/m 10
+  nutrition?: Nutrition;
+  allergens: Allergen[];
+  dietLabels: DietLabel[];
+  mealType?: MealType;
+  cuisine?: Cuisine;
+  tags: string[]; // voorgestelde vrije tags, bijv. "snel" of "ovenschotel"
+}
+
+export type MealAnalysis = ({ isFood: false } | FoodAnalysis) & {
+  cachedAt?: string; // ISO datum van de oorspronkelijke analyse als het resultaat uit de cache komt
+};
+
+// Velden die al tijdens het streamen ingevuld kunnen worden (nog niet gevalideerd)
+export type PartialMealAnalysis = Partial<Pick<FoodAnalysis, "title" | "details" | "ingredients" | "recipe">>;
+
+// Regels (NDJSON) die /api/analyze stuurt als de client om een stream vraagt
+export type AnalysisStreamEvent =
+  | { type: "partial"; partial: PartialMealAnalysis }
+  | { type: "result"; result: MealAnalysis }
+  | { type: "error"; error: string; status: number; field?: string };
+
+export class AnalysisError extends Error {
+  status: number;
+  field?: string; // welk veld van de AI reactie ongeldig was
+
+  constructor(message: string, status = 500, field?: string) {
+    super(message);
+    this.name = "AnalysisError";
+    this.status = status;
+    this.field = field;
+  }
+}
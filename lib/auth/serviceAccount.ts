@@ -0,0 +1,56 @@
+import { createPrivateKey, sign } from "crypto";
+
+const TOKEN_URL = "https://oauth2.googleapis.com/token";
+const DATASTORE_SCOPE = "https://www.googleapis.com/auth/datastore";
+const TOKEN_LIFETIME_SECONDS = 3600;
+// Een token vlak voor het verlopen niet meer gebruiken
+const TOKEN_MARGIN_MS = 60 * 1000;
+
+let tokenCache: { token: string; expiresAt: number } | null = null;
+
+const getCredentials = () => {
+  const clientEmail = process.env.FIREBASE_CLIENT_EMAIL;
+  // In de meeste dashboards staat de sleutel op één regel met letterlijke \n
+  const privateKey = process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, "\n");
+  return clientEmail && privateKey ? { clientEmail, privateKey } : null;
+};
+
+export const hasServiceAccount = () => !!getCredentials() && !!process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
+
+const encodePart = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url");
+
+/**
+ * OAuth access token voor het service account uit FIREBASE_CLIENT_EMAIL en
+ * FIREBASE_PRIVATE_KEY, zonder firebase-admin. Verzoeken met dit token gaan
+ * langs de Firestore rules heen; gebruik het alleen op de server.
+ */
+export async function getServiceAccessToken(): Promise<string> {
+  if (tokenCache && tokenCache.expiresAt > Date.now()) return tokenCache.token;
+
+  const credentials = getCredentials();
+  if (!credentials) throw new Error("FIREBASE_CLIENT_EMAIL and FIREBASE_PRIVATE_KEY are not set");
+
+  const now = Math.floor(Date.now() / 1000);
+  const unsigned = `${encodePart({ alg: "RS256", typ: "JWT" })}.${encodePart({
+    iss: credentials.clientEmail,
+    scope: DATASTORE_SCOPE,
+    aud: TOKEN_URL,
+    iat: now,
+    exp: now + TOKEN_LIFETIME_SECONDS,
+  })}`;
+  const signature = sign("RSA-SHA256", Buffer.from(unsigned), createPrivateKey(credentials.privateKey)).toString("base64url");
+
+  const response = await fetch(TOKEN_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      grant_type: "urn:ietf:params:oauth:grant-type:jwt-bearer",
+      assertion: `${unsigned}.${signature}`,
+    }),
+  });
+  if (!response.ok) throw new Error(`Fetching service account token failed: ${response.status}`);
+  const { access_token, expires_in } = (await response.json()) as { access_token: string; expires_in: number };
+
+  tokenCache = { token: access_token, expiresAt: Date.now() + expires_in * 1000 - TOKEN_MARGIN_MS };
+  return access_token;
+}
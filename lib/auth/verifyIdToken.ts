@@ -0,0 +1,62 @@
+import { createPublicKey, verify } from "crypto";
+
+// Publieke sleutels waarmee Firebase Auth ID tokens ondertekent
+const CERTS_URL = "https://www.googleapis.com/robot/v1/metadata/x509/securetoken@system.gserviceaccount.com";
+const CLOCK_SKEW_SECONDS = 60;
+
+let certCache: { certs: Record<string, string>; expiresAt: number } | null = null;
+
+const getCerts = async () => {
+  if (certCache && certCache.expiresAt > Date.now()) return certCache.certs;
+
+  const response = await fetch(CERTS_URL);
+  if (!response.ok) throw new Error(`Fetching Firebase certs failed: ${response.status}`);
+  const certs = (await response.json()) as Record<string, string>;
+
+  const maxAge = Number(response.headers.get("cache-control")?.match(/max-age=(\d+)/)?.[1] ?? 3600);
+  certCache = { certs, expiresAt: Date.now() + maxAge * 1000 };
+  return certs;
+};
+
+const decodePart = (part: string) => JSON.parse(Buffer.from(part, "base64url").toString("utf8"));
+
+/**
+ * Controleert een Firebase ID token zonder firebase-admin.
+ * Geeft de gebruiker terug, of null als het token ontbreekt of ongeldig is.
+ */
+export async function verifyIdToken(token: string | null | undefined): Promise<{ uid: string; email?: string } | null> {
+  const projectId = process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
+  if (!token || !projectId) return null;
+
+  try {
+    const [encodedHeader, encodedPayload, signature] = token.split(".");
+    if (!encodedHeader || !encodedPayload || !signature) return null;
+
+    const header = decodePart(encodedHeader);
+    const payload = decodePart(encodedPayload);
+    if (header.alg !== "RS256" || typeof header.kid !== "string") return null;
+
+    const cert = (await getCerts())[header.kid];
+    if (!cert) return null;
+
+    const isValidSignature = verify(
+      "RSA-SHA256",
+      Buffer.from(`${encodedHeader}.${encodedPayload}`),
+      createPublicKey(cert),
+      Buffer.from(signature, "base64url")
+    );
+    if (!isValidSignature) return null;
+
+    const now = Math.floor(Date.now() / 1000);
+    if (payload.aud !== projectId) return null;
+    if (payload.iss !== `https://securetoken.google.com/${projectId}`) return null;
+    if (typeof payload.exp !== "number" || payload.exp < now - CLOCK_SKEW_SECONDS) return null;
+    if (typeof payload.iat !== "number" || payload.iat > now + CLOCK_SKEW_SECONDS) return null;
+    if (typeof payload.sub !== "string" || !payload.sub) return null;
+
+    return { uid: payload.sub, email: payload.email };
+  } catch (error) {
+    console.warn("ID token verification failed:", error);
+    return null;
+  }
+}
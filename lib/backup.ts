@@ -0,0 +1,249 @@
+import { collection, doc, getDocs, orderBy, query, setDoc, Timestamp } from "firebase/firestore";
+import { getBlob, getDownloadURL, ref, uploadBytes } from "firebase/storage";
+import { db, storage } from "@/lib/firebase";
+import { Meal, getMealImages } from "@/lib/meals";
+import { dishKey } from "@/lib/favorites";
+import { cuisineInfo, mealTypeInfo } from "@/lib/tags";
+import { createPlaceholderImage } from "@/lib/placeholderImage";
+import { createZip, readZip, ZipEntry } from "@/lib/zip";
+
+const ARCHIVE_VERSION = 1;
+const MANIFEST_FILE = "manifest.json";
+
+interface BackupManifest {
+  app: "MaaltijdPlus";
+  version: number;
+  exportedAt: string;
+  exportedBy: string;
+  mealCount: number;
+  missingPhotos: number; // foto's die bij het exporteren niet opgehaald konden worden
+}
+
+// Eén bestand per maaltijd: de Firestore-velden plus waar de foto's in het archief staan
+interface ArchivedMeal {
+  id: string;
+  data: Record<string, unknown>;
+  photos: string[];
+  missingPhotos?: number; // konden bij het exporteren niet opgehaald worden
+}
+
+export interface BackupProgress {
+  done: number;
+  total: number;
+}
+
+export interface ExportResult {
+  blob: Blob;
+  missingPhotos: number;
+}
+
+export interface ImportResult {
+  imported: number;
+  skipped: number; // bestonden al
+  failed: number;
+  missingPhotos: number; // foto's die niet in het archief zaten; de maaltijd is wel teruggezet
+}
+
+// Timestamps overleven JSON niet; we schrijven ze als { __timestamp: ISO } en zetten ze bij import terug
+const toPlain = (value: unknown): unknown => {
+  if (value instanceof Timestamp) return { __timestamp: value.toDate().toISOString() };
+  if (Array.isArray(value)) return value.map(toPlain);
+  if (value && typeof value === "object") return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, toPlain(v)]));
+  return value;
+};
+
+const fromPlain = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(fromPlain);
+  if (value && typeof value === "object") {
+    const obj = value as Record<string, unknown>;
+    if (typeof obj.__timestamp === "string") return Timestamp.fromDate(new Date(obj.__timestamp));
+    return Object.fromEntries(Object.entries(obj).map(([key, v]) => [key, fromPlain(v)]));
+  }
+  return value;
+};
+
+// Puntkomma's en een BOM, anders opent Nederlandse Excel alles in één kolom
+const CSV_COLUMNS: { header: string; value: (meal: Meal) => string | number | undefined | null }[] = [
+  { header: "datum", value: meal => meal.date },
+  { header: "titel", value: meal => meal.title },
+  { header: "wie", value: meal => meal.userEmail },
+  { header: "gezondheidsscore", value: meal => meal.healthScore },
+  { header: "kcal", value: meal => meal.nutrition?.calories },
+  { header: "eiwit (g)", value: meal => meal.nutrition?.protein },
+  { header: "koolhydraten (g)", value: meal => meal.nutrition?.carbs },
+  { header: "vet (g)", value: meal => meal.nutrition?.fat },
+  { header: "soort", value: meal => mealTypeInfo(meal.mealType)?.label },
+  { header: "keuken", value: meal => cuisineInfo(meal.cuisine)?.label },
+  { header: "tags", value: meal => meal.tags?.join(", ") },
+  { header: "smaak", value: meal => meal.ratingAverage },
+  { header: "personen", value: meal => meal.servings },
+  { header: "foto's", value: meal => meal.isPlaceholderImage ? 0 : getMealImages(meal).length },
+  { header: "id", value: meal => meal.id },
+];
+
+const csvCell = (value: string | number | undefined | null) => {
+  const text = value === undefined || value === null ? "" : String(value);
+  return /[";\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const mealsToCsv = (meals: Meal[]) =>
+  "\uFEFF" + [CSV_COLUMNS.map(column => column.header), ...meals.map(meal => CSV_COLUMNS.map(column => column.value(meal)))]
+    .map(row => row.map(csvCell).join(";"))
+    .join("\n");
+
+const photoExtension = (type: string) => type === "image/png" ? "png" : type === "image/webp" ? "webp" : "jpg";
+
+/**
+ * Rechtstreeks uit Storage met de SDK: de proxy valt onder de limiet van 100 API-verzoeken
+ * per 10 minuten, en een back-up haalt al snel honderden foto's op. Alleen als de bucket
+ * geen CORS toestaat voor getBlob wijken we uit naar de proxy.
+ */
+async function downloadPhoto(url: string): Promise<Blob> {
+  try {
+    return await getBlob(ref(storage, url));
+  } catch (error) {
+    console.warn("Direct photo download failed, using proxy:", error);
+    const response = await fetch(`/api/proxy-image?url=${encodeURIComponent(url)}`);
+    if (!response.ok) throw new Error(`Foto ophalen mislukt (${response.status})`);
+    return response.blob();
+  }
+}
+
+const fetchAllMeals = async () => {
+  const snapshot = await getDocs(query(collection(db, "meals"), orderBy("date", "desc")));
+  return snapshot.docs.map(d => ({ id: d.id, ...d.data() } as Meal));
+};
+
+/**
+ * Alle maaltijden van het huishouden als ZIP: per maaltijd een JSON-bestand, een CSV
+ * overzicht en de originele foto's. Reacties in de subcollectie gaan niet mee.
+ * Foto's die niet opgehaald konden worden staan in missingPhotos, zodat de UI kan waarschuwen.
+ */
+export async function exportBackup(exportedBy: string, onProgress?: (progress: BackupProgress) => void): Promise<ExportResult> {
+  const meals = await fetchAllMeals();
+  const encoder = new TextEncoder();
+  const entries: ZipEntry[] = [];
+  let missingPhotos = 0;
+
+  for (const [index, meal] of meals.entries()) {
+    onProgress?.({ done: index, total: meals.length });
+    const { id, ...data } = meal;
+    const photos: string[] = [];
+    let mealMissingPhotos = 0;
+
+    for (const [photoIndex, url] of getMealImages(meal).entries()) {
+      try {
+        const blob = await downloadPhoto(url);
+        const path = `photos/${id}/${photoIndex + 1}.${photoExtension(blob.type)}`;
+        entries.push({ name: path, data: new Uint8Array(await blob.arrayBuffer()) });
+        photos.push(path);
+      } catch (error) {
+        console.error(`Error exporting photo of ${id}:`, error);
+        mealMissingPhotos++;
+      }
+    }
+
+    missingPhotos += mealMissingPhotos;
+    const archived: ArchivedMeal = { id, data: toPlain(data) as Record<string, unknown>, photos, missingPhotos: mealMissingPhotos };
+    entries.push({ name: `meals/${id}.json`, data: encoder.encode(JSON.stringify(archived, null, 2)) });
+  }
+  onProgress?.({ done: meals.length, total: meals.length });
+
+  const manifest: BackupManifest = {
+    app: "MaaltijdPlus",
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    exportedBy,
+    mealCount: meals.length,
+    missingPhotos,
+  };
+  entries.unshift(
+    { name: MANIFEST_FILE, data: encoder.encode(JSON.stringify(manifest, null, 2)) },
+    { name: "meals.csv", data: encoder.encode(mealsToCsv(meals)) },
+  );
+
+  return { blob: createZip(entries), missingPhotos };
+}
+
+// Dezelfde maaltijd op dezelfde dag van dezelfde persoon, ook als het document een ander ID heeft
+const duplicateKey = (meal: Pick<Meal, "date" | "title" | "userEmail">) => `${meal.date}|${dishKey(meal)}|${meal.userEmail}`;
+
+/**
+ * Zet een back-up terug in het huidige account: alle maaltijden komen op naam van wie
+ * importeert (userId), zodat die ze daarna kan bewerken en verwijderen; userEmail blijft
+ * staan, zodat te zien blijft wie wat at. Maaltijden houden hun oorspronkelijke ID, zodat
+ * een tweede import ze overslaat. Ontbreken de foto's, dan krijgt de maaltijd een placeholder.
+ */
+export async function importBackup(
+  file: Blob,
+  uid: string,
+  onProgress?: (progress: BackupProgress) => void,
+): Promise<ImportResult> {
+  const files = await readZip(await file.arrayBuffer());
+  const decoder = new TextDecoder();
+
+  const manifestFile = files.get(MANIFEST_FILE);
+  const manifest = manifestFile ? JSON.parse(decoder.decode(manifestFile)) as Partial<BackupManifest> : null;
+  if (manifest?.app !== "MaaltijdPlus") throw new Error("Dit is geen MaaltijdPlus back-up");
+  if ((manifest.version ?? 0) > ARCHIVE_VERSION) throw new Error("Deze back-up is gemaakt met een nieuwere versie van de app");
+
+  const existing = await fetchAllMeals();
+  const existingIds = new Set(existing.map(meal => meal.id));
+  const existingKeys = new Set(existing.map(duplicateKey));
+
+  const mealFiles = Array.from(files.keys()).filter(name => name.startsWith("meals/") && name.endsWith(".json"));
+  const result: ImportResult = { imported: 0, skipped: 0, failed: 0, missingPhotos: 0 };
+
+  for (const [index, name] of mealFiles.entries()) {
+    onProgress?.({ done: index, total: mealFiles.length });
+    try {
+      const archived = JSON.parse(decoder.decode(files.get(name))) as ArchivedMeal;
+      const data = fromPlain(archived.data) as Omit<Meal, "id">;
+      if (existingIds.has(archived.id) || existingKeys.has(duplicateKey(data))) {
+        result.skipped++;
+        continue;
+      }
+
+      result.missingPhotos += archived.missingPhotos ?? 0;
+      const imageUrls: string[] = [];
+      for (const [photoIndex, path] of archived.photos.entries()) {
+        const photo = files.get(path);
+        if (!photo) {
+          result.missingPhotos++;
+          continue;
+        }
+        const storageRef = ref(storage, `meals/${uid}/${Date.now()}_import_${photoIndex}.${path.split(".").pop()}`);
+        await uploadBytes(storageRef, photo);
+        imageUrls.push(await getDownloadURL(storageRef));
+      }
+
+      // Zonder foto (niet meegekomen bij het exporteren) toch terugzetten, net als een maaltijd zonder foto loggen
+      const isPlaceholderImage = imageUrls.length === 0;
+      if (isPlaceholderImage) {
+        const storageRef = ref(storage, `meals/${uid}/${Date.now()}_placeholder.jpg`);
+        await uploadBytes(storageRef, await createPlaceholderImage(data.title));
+        imageUrls.push(await getDownloadURL(storageRef));
+      }
+
+      // De reacties zelf zitten niet in de back-up, dus ook geen teller
+      const restored = { ...data };
+      delete restored.commentCount;
+      await setDoc(doc(db, "meals", archived.id), {
+        ...restored,
+        userId: uid,
+        imageUrl: imageUrls[0],
+        imageUrls,
+        ...(isPlaceholderImage && { isPlaceholderImage, imageHashes: [] }),
+      });
+      existingIds.add(archived.id);
+      existingKeys.add(duplicateKey(data));
+      result.imported++;
+    } catch (error) {
+      console.error(`Error importing ${name}:`, error);
+      result.failed++;
+    }
+  }
+  onProgress?.({ done: mealFiles.length, total: mealFiles.length });
+
+  return result;
+}
@@ -0,0 +1,97 @@
+import {
+  arrayRemove,
+  arrayUnion,
+  collection,
+  doc,
+  increment,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+  Timestamp,
+  Unsubscribe,
+  updateDoc,
+  writeBatch,
+} from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import type { Meal } from "@/lib/meals";
+
+export const REACTIONS = [
+  { key: "yum", label: "Lekker", emoji: "😋" },
+  { key: "love", label: "Mooi", emoji: "❤️" },
+  { key: "fire", label: "Top", emoji: "🔥" },
+  { key: "wow", label: "Wauw", emoji: "😮" },
+  { key: "healthy", label: "Gezond", emoji: "💪" },
+] as const;
+
+export type ReactionKey = (typeof REACTIONS)[number]["key"];
+
+export const MAX_COMMENT_LENGTH = 500;
+
+export interface MealComment {
+  id: string;
+  userId: string;
+  userEmail: string;
+  text: string;
+  createdAt: Timestamp | null; // null zolang de servertijd nog niet terug is
+}
+
+// Emoji-reacties staan als { yum: [userId, ...] } op de maaltijd zelf, zodat de kaart ze zonder extra query kan tellen
+export const reactionUsers = (meal: Pick<Meal, "reactions">, key: ReactionKey) => meal.reactions?.[key] ?? [];
+
+export const reactionTotal = (meal: Pick<Meal, "reactions">) =>
+  REACTIONS.reduce((total, reaction) => total + reactionUsers(meal, reaction.key).length, 0);
+
+export async function toggleReaction(meal: Meal, userId: string, key: ReactionKey): Promise<Meal> {
+  const users = reactionUsers(meal, key);
+  const reacted = users.includes(userId);
+  const remaining = users.filter(id => id !== userId);
+  await updateDoc(doc(db, "meals", meal.id), {
+    // Altijd arrayRemove: onze lijst kan verouderd zijn, en een deleteField zou reacties wissen
+    // die anderen net hebben toegevoegd. Een lege lijst blijft staan; de UI toont die niet.
+    [`reactions.${key}`]: reacted ? arrayRemove(userId) : arrayUnion(userId),
+  });
+
+  const reactions = { ...meal.reactions, [key]: reacted ? remaining : [...remaining, userId] };
+  if (reactions[key]?.length === 0) delete reactions[key];
+  return { ...meal, reactions };
+}
+
+const commentsOf = (mealId: string) => collection(db, "meals", mealId, "comments");
+
+/**
+ * Live lijst van reacties onder een maaltijd, oudste eerst.
+ * Staan in een subcollectie; het aantal houden we bij in commentCount op de maaltijd.
+ */
+export function subscribeToComments(mealId: string, onChange: (comments: MealComment[]) => void): Unsubscribe {
+  return onSnapshot(query(commentsOf(mealId), orderBy("createdAt", "asc")), (snapshot) => {
+    onChange(snapshot.docs.map(d => ({ id: d.id, ...d.data({ serverTimestamps: "estimate" }) } as MealComment)));
+  }, (error) => console.error("Error listening for comments:", error));
+}
+
+export async function addComment(mealId: string, author: { uid: string; email: string | null }, text: string): Promise<void> {
+  const trimmed = text.trim();
+  if (!trimmed) throw new Error("Reactie is leeg");
+  if (trimmed.length > MAX_COMMENT_LENGTH) throw new Error(`Reactie is te lang (max ${MAX_COMMENT_LENGTH} tekens)`);
+
+  const batch = writeBatch(db);
+  batch.set(doc(commentsOf(mealId)), {
+    userId: author.uid,
+    userEmail: author.email ?? "",
+    text: trimmed,
+    createdAt: serverTimestamp(),
+  });
+  batch.update(doc(db, "meals", mealId), { commentCount: increment(1) });
+  await batch.commit();
+}
+
+export async function deleteComment(mealId: string, commentId: string): Promise<void> {
+  const batch = writeBatch(db);
+  batch.delete(doc(commentsOf(mealId), commentId));
+  batch.update(doc(db, "meals", mealId), { commentCount: increment(-1) });
+  await batch.commit();
+}
+
+// Je eigen reactie mag je altijd weghalen; de eigenaar van de maaltijd modereert de rest
+export const canDeleteComment = (comment: MealComment, meal: Pick<Meal, "userId">, userId: string | undefined) =>
+  !!userId && (comment.userId === userId || meal.userId === userId);
@@ -0,0 +1,75 @@
+// Datums staan in Firestore als "YYYY-MM-DD" strings, dus vergelijken en filteren kan als tekst
+export interface DateRange {
+  from?: string;
+  to?: string;
+}
+
+export type DateRangePreset = "all" | "thisWeek" | "lastWeek" | "thisMonth" | "lastMonth" | "custom";
+
+export const DATE_RANGE_PRESETS: { key: DateRangePreset; label: string }[] = [
+  { key: "all", label: "Alles" },
+  { key: "thisWeek", label: "Deze week" },
+  { key: "lastWeek", label: "Vorige week" },
+  { key: "thisMonth", label: "Deze maand" },
+  { key: "lastMonth", label: "Vorige maand" },
+  { key: "custom", label: "Aangepast" },
+];
+
+export const WEEKDAY_LABELS = ["Ma", "Di", "Wo", "Do", "Vr", "Za", "Zo"];
+
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Weken beginnen op maandag
+export const startOfWeek = (date: Date) => addDays(date, -((date.getDay() + 6) % 7));
+export const startOfMonth = (date: Date) => new Date(date.getFullYear(), date.getMonth(), 1);
+export const endOfMonth = (date: Date) => new Date(date.getFullYear(), date.getMonth() + 1, 0);
+
+export function getPresetRange(preset: DateRangePreset, today = new Date()): DateRange {
+  switch (preset) {
+    case "thisWeek":
+      return { from: toDateKey(startOfWeek(today)), to: toDateKey(addDays(startOfWeek(today), 6)) };
+    case "lastWeek": {
+      const start = addDays(startOfWeek(today), -7);
+      return { from: toDateKey(start), to: toDateKey(addDays(start, 6)) };
+    }
+    case "thisMonth":
+      return { from: toDateKey(startOfMonth(today)), to: toDateKey(endOfMonth(today)) };
+    case "lastMonth": {
+      const previous = new Date(today.getFullYear(), today.getMonth() - 1, 1);
+      return { from: toDateKey(previous), to: toDateKey(endOfMonth(previous)) };
+    }
+    default:
+      return {};
+  }
+}
+
+// Doorsnede van twee bereiken; null als ze elkaar niet overlappen
+export function intersectRanges(a: DateRange, b: DateRange): DateRange | null {
+  const from = [a.from, b.from].filter(Boolean).sort().pop();
+  const to = [a.to, b.to].filter(Boolean).sort()[0];
+  if (from && to && from > to) return null;
+  return { from, to };
+}
+
+export const isInRange = (dateKey: string, { from, to }: DateRange) =>
+  (!from || dateKey >= from) && (!to || dateKey <= to);
+
+/**
+ * Alle dagen die in een maandkalender getoond worden, van de maandag vóór
+ * de eerste tot en met de zondag na de laatste dag van de maand.
+ */
+export function getCalendarDays(month: Date): Date[] {
+  const first = startOfWeek(startOfMonth(month));
+  const last = endOfMonth(month);
+  const days: Date[] = [];
+  for (let day = first; day <= last || days.length % 7 !== 0; day = addDays(day, 1)) {
+    days.push(day);
+  }
+  return days;
+}
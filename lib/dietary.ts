@@ -0,0 +1,43 @@
+// De 14 allergenen die in de EU verplicht vermeld moeten worden
+export const ALLERGENS = [
+  { key: "gluten", label: "Gluten", emoji: "🌾" },
+  { key: "crustaceans", label: "Schaaldieren", emoji: "🦐" },
+  { key: "eggs", label: "Ei", emoji: "🥚" },
+  { key: "fish", label: "Vis", emoji: "🐟" },
+  { key: "peanuts", label: "Pinda", emoji: "🥜" },
+  { key: "soy", label: "Soja", emoji: "🫘" },
+  { key: "milk", label: "Melk", emoji: "🥛" },
+  { key: "nuts", label: "Noten", emoji: "🌰" },
+  { key: "celery", label: "Selderij", emoji: "🥬" },
+  { key: "mustard", label: "Mosterd", emoji: "🟡" },
+  { key: "sesame", label: "Sesam", emoji: "⚪" },
+  { key: "sulphites", label: "Sulfiet", emoji: "🍷" },
+  { key: "lupin", label: "Lupine", emoji: "🌼" },
+  { key: "molluscs", label: "Weekdieren", emoji: "🦑" },
+] as const;
+
+export const DIET_LABELS = [
+  { key: "vegetarian", label: "Vegetarisch", emoji: "🥕" },
+  { key: "vegan", label: "Veganistisch", emoji: "🌱" },
+  { key: "halal", label: "Halal", emoji: "☪️" },
+  { key: "lactose-free", label: "Lactosevrij", emoji: "🚫🥛" },
+] as const;
+
+export type Allergen = (typeof ALLERGENS)[number]["key"];
+export type DietLabel = (typeof DIET_LABELS)[number]["key"];
+
+const ALLERGEN_KEYS: readonly string[] = ALLERGENS.map(a => a.key);
+const DIET_KEYS: readonly string[] = DIET_LABELS.map(d => d.key);
+
+// Alleen bekende sleutels bewaren, zonder dubbelingen
+const pickKeys = <T extends string>(raw: unknown, allowed: readonly string[]): T[] => {
+  if (!Array.isArray(raw)) return [];
+  const keys = raw
+    .filter((value): value is string => typeof value === "string")
+    .map(value => value.trim().toLowerCase())
+    .filter(value => allowed.includes(value));
+  return Array.from(new Set(keys)) as T[];
+};
+
+export const normalizeAllergens = (raw: unknown) => pickKeys<Allergen>(raw, ALLERGEN_KEYS);
+export const normalizeDietLabels = (raw: unknown) => pickKeys<DietLabel>(raw, DIET_KEYS);
@@ -0,0 +1,29 @@
+export interface ExpiringMap<T> {
+  get(key: string): T | undefined;
+  set(key: string, value: T, ttlMs: number): void;
+}
+
+/**
+ * Map in het geheugen waarin elk item na `ttlMs` verloopt. Alleen geschikt voor één
+ * proces en leeg na elke (serverless) cold start. Verlopen items worden pas opgeruimd
+ * als de map boven `maxEntries` komt, zodat een gewone set goedkoop blijft.
+ */
+export function createExpiringMap<T>(maxEntries: number): ExpiringMap<T> {
+  const entries = new Map<string, { value: T; expiresAt: number }>();
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      return entry && entry.expiresAt > Date.now() ? entry.value : undefined;
+    },
+    set(key, value, ttlMs) {
+      const now = Date.now();
+      entries.set(key, { value, expiresAt: now + ttlMs });
+      if (entries.size <= maxEntries) return;
+
+      for (const [entryKey, entry] of entries) {
+        if (entry.expiresAt <= now) entries.delete(entryKey);
+      }
+    },
+  };
+}
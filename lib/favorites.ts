@@ -0,0 +1,83 @@
+import { arrayRemove, arrayUnion, collection, doc, getDocs, limit, orderBy, query, updateDoc, where } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import type { Meal } from "@/lib/meals";
+import { normalizeText } from "@/lib/search";
+import { toDateKey } from "@/lib/dateRange";
+
+const HISTORY_MAX_MEALS = 2000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CookAgainItem {
+  meal: Meal; // de favoriet zelf, voor foto en recept
+  lastMade: string; // meest recente datum waarop dit gerecht gelogd is
+  daysAgo: number;
+  timesMade: number;
+}
+
+export const isFavorite = (meal: Pick<Meal, "favoritedBy">, userId: string | undefined) =>
+  !!userId && !!meal.favoritedBy?.includes(userId);
+
+/**
+ * Zet een maaltijd aan of uit als favoriet voor één gebruiker. arrayUnion/arrayRemove
+ * zodat huisgenoten die tegelijk klikken elkaars favoriet niet overschrijven.
+ */
+export async function toggleFavorite(meal: Meal, userId: string): Promise<Meal> {
+  const favorite = isFavorite(meal, userId);
+  await updateDoc(doc(db, "meals", meal.id), {
+    favoritedBy: favorite ? arrayRemove(userId) : arrayUnion(userId),
+  });
+  const others = (meal.favoritedBy ?? []).filter(id => id !== userId);
+  return { ...meal, favoritedBy: favorite ? others : [...others, userId] };
+}
+
+// Hetzelfde gerecht op een andere dag heeft (bijna altijd) dezelfde titel
+export const dishKey = (meal: Pick<Meal, "title">) => normalizeText(meal.title).replace(/\s+/g, " ").trim();
+
+/**
+ * Favorieten, het langst niet meer gemaakte gerecht eerst. "Laatst gemaakt" is de
+ * nieuwste maaltijd in de geschiedenis met dezelfde titel, ook als die geen favoriet is.
+ */
+export function buildCookAgainList(favorites: Meal[], history: Meal[], today = new Date()): CookAgainItem[] {
+  const dates = new Map<string, string[]>();
+  for (const meal of [...history, ...favorites]) {
+    const key = dishKey(meal);
+    if (key && meal.date) dates.set(key, [...(dates.get(key) ?? []), meal.date]);
+  }
+
+  const todayTime = new Date(`${toDateKey(today)}T00:00:00`).getTime();
+  const items = new Map<string, CookAgainItem>();
+  for (const meal of favorites) {
+    const key = dishKey(meal) || meal.id;
+    const made = Array.from(new Set(dates.get(key) ?? [meal.date])).sort();
+    const lastMade = made[made.length - 1];
+    // Per gerecht één regel, met de meest recente favoriet als voorbeeld
+    const existing = items.get(key);
+    if (existing && existing.meal.date >= meal.date) continue;
+    items.set(key, {
+      meal,
+      lastMade,
+      daysAgo: Math.max(0, Math.round((todayTime - new Date(`${lastMade}T00:00:00`).getTime()) / DAY_MS)),
+      timesMade: made.length,
+    });
+  }
+
+  return Array.from(items.values()).sort((a, b) => a.lastMade.localeCompare(b.lastMade) || a.meal.title.localeCompare(b.meal.title));
+}
+
+export async function fetchCookAgainList(userId: string): Promise<CookAgainItem[]> {
+  const meals = collection(db, "meals");
+  const [favorites, history] = await Promise.all([
+    getDocs(query(meals, where("favoritedBy", "array-contains", userId))),
+    getDocs(query(meals, orderBy("date", "desc"), limit(HISTORY_MAX_MEALS))),
+  ]);
+  const toMeal = (snapshot: typeof favorites) => snapshot.docs.map(d => ({ id: d.id, ...d.data() } as Meal));
+  return buildCookAgainList(toMeal(favorites), toMeal(history));
+}
+
+export function daysAgoLabel(days: number): string {
+  if (days === 0) return "vandaag";
+  if (days === 1) return "gisteren";
+  if (days < 14) return `${days} dagen geleden`;
+  if (days < 60) return `${Math.round(days / 7)} weken geleden`;
+  return `${Math.round(days / 30)} maanden geleden`;
+}
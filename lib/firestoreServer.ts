@@ -0,0 +1,124 @@
+import { getServiceAccessToken } from "@/lib/auth/serviceAccount";
+
+// Firestore via de REST API met het service account, voor collecties die alleen de
+// server mag lezen en schrijven (rate_limits, analysis_cache). De client SDK is op
+// de server niet ingelogd en loopt daar tegen de rules aan.
+
+export type ServerValue = string | number | boolean | null | Date | ServerValue[];
+export type ServerFields = Record<string, ServerValue>;
+
+interface FirestoreValue {
+  nullValue?: null;
+  booleanValue?: boolean;
+  integerValue?: string;
+  doubleValue?: number;
+  stringValue?: string;
+  timestampValue?: string;
+  arrayValue?: { values?: FirestoreValue[] };
+}
+
+// Botsende transacties krijgen ABORTED; dan gewoon opnieuw proberen
+const MAX_TRANSACTION_ATTEMPTS = 5;
+
+const projectId = () => process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
+const documentsPath = () => `projects/${projectId()}/databases/(default)/documents`;
+// In de URL moet het ID gecodeerd worden, in de documentnaam van een write niet
+const documentName = (collection: string, id: string) => `${documentsPath()}/${collection}/${id}`;
+const documentUrl = (collection: string, id: string) => `${documentsPath()}/${collection}/${encodeURIComponent(id)}`;
+
+const toValue = (value: ServerValue): FirestoreValue => {
+  if (value === null) return { nullValue: null };
+  if (value instanceof Date) return { timestampValue: value.toISOString() };
+  if (Array.isArray(value)) return { arrayValue: { values: value.map(toValue) } };
+  if (typeof value === "boolean") return { booleanValue: value };
+  if (typeof value === "number") return Number.isInteger(value) ? { integerValue: String(value) } : { doubleValue: value };
+  return { stringValue: value };
+};
+
+const fromValue = (value: FirestoreValue): ServerValue => {
+  if (value.booleanValue !== undefined) return value.booleanValue;
+  if (value.integerValue !== undefined) return Number(value.integerValue);
+  if (value.doubleValue !== undefined) return value.doubleValue;
+  if (value.stringValue !== undefined) return value.stringValue;
+  if (value.timestampValue !== undefined) return new Date(value.timestampValue);
+  if (value.arrayValue) return (value.arrayValue.values ?? []).map(fromValue);
+  return null;
+};
+
+const toFields = (fields: ServerFields) =>
+  Object.fromEntries(Object.entries(fields).map(([key, value]) => [key, toValue(value)]));
+
+class FirestoreRequestError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "FirestoreRequestError";
+    this.status = status;
+  }
+}
+
+async function request<T>(path: string, init: { method?: string; body?: object } = {}): Promise<T | null> {
+  const response = await fetch(`https://firestore.googleapis.com/v1/${path}`, {
+    method: init.method ?? "GET",
+    headers: {
+      Authorization: `Bearer ${await getServiceAccessToken()}`,
+      ...(init.body && { "Content-Type": "application/json" }),
+    },
+    body: init.body ? JSON.stringify(init.body) : undefined,
+  });
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new FirestoreRequestError(`Firestore ${init.method ?? "GET"} ${path} failed: ${response.status} ${await response.text()}`, response.status);
+  }
+  return (await response.json()) as T;
+}
+
+async function readDocument(collection: string, id: string, transaction?: string): Promise<ServerFields | null> {
+  const query = transaction ? `?transaction=${encodeURIComponent(transaction)}` : "";
+  const document = await request<{ fields?: Record<string, FirestoreValue> }>(`${documentUrl(collection, id)}${query}`);
+  if (!document) return null;
+  return Object.fromEntries(Object.entries(document.fields ?? {}).map(([key, value]) => [key, fromValue(value)]));
+}
+
+const commit = (writes: { collection: string; id: string; fields: ServerFields }[], transaction?: string) =>
+  request(`${documentsPath()}:commit`, {
+    method: "POST",
+    body: {
+      writes: writes.map(write => ({ update: { name: documentName(write.collection, write.id), fields: toFields(write.fields) } })),
+      ...(transaction && { transaction }),
+    },
+  });
+
+export const getServerDocument = (collection: string, id: string) => readDocument(collection, id);
+
+export async function setServerDocument(collection: string, id: string, fields: ServerFields): Promise<void> {
+  await commit([{ collection, id, fields }]);
+}
+
+/**
+ * Leest één document en schrijft het in dezelfde transactie terug, zodat twee
+ * gelijktijdige verzoeken elkaars wijziging niet overschrijven.
+ */
+export async function updateServerDocument<T>(
+  collection: string,
+  id: string,
+  update: (current: ServerFields | null) => { fields: ServerFields; result: T },
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    const begun = await request<{ transaction: string }>(`${documentsPath()}:beginTransaction`, { method: "POST", body: {} });
+    const transaction = begun!.transaction;
+    try {
+      const { fields, result } = update(await readDocument(collection, id, transaction));
+      await commit([{ collection, id, fields }], transaction);
+      return result;
+    } catch (error) {
+      const aborted = error instanceof FirestoreRequestError && error.status === 409;
+      // Een afgebroken transactie is al vrijgegeven; anders zelf terugdraaien zodat het document niet vast blijft zitten
+      if (!aborted) {
+        await request(`${documentsPath()}:rollback`, { method: "POST", body: { transaction } }).catch(() => undefined);
+      }
+      if (!aborted || attempt >= MAX_TRANSACTION_ATTEMPTS) throw error;
+    }
+  }
+}
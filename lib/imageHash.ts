@@ -0,0 +1,78 @@
+import { collection, getDocs, limit, orderBy, query } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import type { Meal } from "@/lib/meals";
+
+// Hoeveel bits van de 64 mogen verschillen om nog als dezelfde foto te gelden
+const DUPLICATE_MAX_DISTANCE = 8;
+// Dubbele uploads gebeuren vrijwel altijd kort na elkaar; verder terug kijken we niet
+const RECENT_MEALS_TO_CHECK = 300;
+
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+export interface DuplicateMatch {
+  meal: Meal;
+  distance: number;
+}
+
+/**
+ * Perceptuele hash (dHash) van een foto: verkleind tot 9x8 grijswaarden, en per pixel
+ * of hij lichter is dan zijn rechterbuur. Opnieuw comprimeren, schalen of een iets
+ * andere belichting verandert maar een paar bits, een andere foto ongeveer de helft.
+ * Geeft 16 hex tekens terug.
+ */
+export async function computeImageHash(image: Blob): Promise<string> {
+  const bitmap = await createImageBitmap(image);
+  const canvas = document.createElement("canvas");
+  canvas.width = HASH_WIDTH;
+  canvas.height = HASH_HEIGHT;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas not supported");
+  ctx.drawImage(bitmap, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+  bitmap.close();
+
+  const { data } = ctx.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT);
+  const gray = (x: number, y: number) => {
+    const i = (y * HASH_WIDTH + x) * 4;
+    return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+  };
+
+  let hash = "";
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    let byte = 0;
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      byte = (byte << 1) | (gray(x, y) > gray(x + 1, y) ? 1 : 0);
+    }
+    hash += byte.toString(16).padStart(2, "0");
+  }
+  return hash;
+}
+
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) return Infinity;
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let xor = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (xor) {
+      distance += xor & 1;
+      xor >>= 1;
+    }
+  }
+  return distance;
+}
+
+// Maaltijden met een foto die op een van de hashes lijkt, meest gelijkende eerst
+export function matchDuplicates(hashes: string[], meals: Meal[]): DuplicateMatch[] {
+  const matches: DuplicateMatch[] = [];
+  for (const meal of meals) {
+    if (!meal.imageHashes?.length) continue; // oudere maaltijden hebben nog geen hash
+    const distance = Math.min(...hashes.flatMap(hash => meal.imageHashes!.map(existing => hammingDistance(hash, existing))));
+    if (distance <= DUPLICATE_MAX_DISTANCE) matches.push({ meal, distance });
+  }
+  return matches.sort((a, b) => a.distance - b.distance);
+}
+
+export async function fetchRecentMeals(): Promise<Meal[]> {
+  const snapshot = await getDocs(query(collection(db, "meals"), orderBy("createdAt", "desc"), limit(RECENT_MEALS_TO_CHECK)));
+  return snapshot.docs.map(d => ({ id: d.id, ...d.data() } as Meal));
+}
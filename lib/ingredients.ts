@@ -0,0 +1,183 @@
+import type { Meal } from "@/lib/meals";
+import { normalizeText } from "@/lib/search";
+import { AMOUNT, LIST_MARKER, METRIC_UNITS, formatAmount, normalizeMetric, parseAmount } from "@/lib/servings";
+
+/**
+ * Eén ingrediënt als record in plaats van vrije tekst, zodat samenvoegen, schalen en
+ * zoeken niet meer op regex-raden over de hele regel hoeven te leunen.
+ */
+export interface Ingredient {
+  name: string;
+  quantity: number | null; // null bij "zout naar smaak"
+  unit: string; // "" voor stuks, anders de enkelvoudsvorm ("g", "el", "potje", ...)
+  note?: string; // "fijngesneden", "naar smaak"
+  department?: string; // AH-afdeling uit DEPARTMENTS
+}
+
+export const MAX_INGREDIENTS = 40;
+export const OTHER_DEPARTMENT = "Overig";
+
+// Afdelingen in de looproute van een gemiddelde Albert Heijn; koppen uit de AI-tekst worden hierop gemapt
+export const DEPARTMENTS: { name: string; match: RegExp }[] = [
+  { name: "Groente & fruit", match: /groente|fruit|aardappel/ },
+  { name: "Brood & bakkerij", match: /brood|bakker/ },
+  { name: "Vlees & vis", match: /vlees|vis|kip|gevogelte|slager/ },
+  { name: "Kaas, vleeswaren & tapas", match: /kaas|vleeswaren|tapas/ },
+  { name: "Zuivel & eieren", match: /zuivel|eieren|\bei\b|koeling/ },
+  { name: "Houdbaar", match: /houdbaar|pasta|rijst|conserv|wereld|sauzen|bakken|ontbijt/ },
+  { name: "Kruiden & specerijen", match: /kruid|specerij/ },
+  { name: "Diepvries", match: /diepvries/ },
+  { name: "Dranken", match: /drank|drinken/ },
+];
+
+// Volgorde voor het raden op trefwoord: "vleeswaren" bevat "vlees", dus kaas en vleeswaren gaan vóór vlees en vis
+const CHEESE_DEPARTMENT = "Kaas, vleeswaren & tapas";
+const KEYWORD_ORDER = [
+  ...DEPARTMENTS.filter(department => department.name === CHEESE_DEPARTMENT),
+  ...DEPARTMENTS.filter(department => department.name !== CHEESE_DEPARTMENT),
+];
+
+export function toDepartment(header: string): string {
+  const normalized = normalizeText(header);
+  // Eerst de exacte afdelingsnaam (zo levert de AI ze aan), daarna pas raden op trefwoord
+  return DEPARTMENTS.find(department => normalizeText(department.name) === normalized)?.name
+    ?? KEYWORD_ORDER.find(department => department.match.test(normalized))?.name
+    ?? (header ? header.charAt(0).toUpperCase() + header.slice(1) : OTHER_DEPARTMENT);
+}
+
+// Verpakkingen en keukenmaten als [enkelvoud, meervoud]
+const COUNT_UNITS: [string, string][] = [
+  ["el", "el"], ["tl", "tl"], ["eetlepel", "eetlepels"], ["theelepel", "theelepels"],
+  ["potje", "potjes"], ["pot", "potten"], ["blik", "blikken"], ["blikje", "blikjes"],
+  ["zak", "zakken"], ["zakje", "zakjes"], ["pak", "pakken"], ["pakje", "pakjes"],
+  ["bos", "bossen"], ["bosje", "bosjes"], ["teen", "tenen"], ["teentje", "teentjes"],
+  ["stuk", "stuks"], ["bakje", "bakjes"], ["fles", "flessen"], ["plak", "plakken"],
+  ["snuf", "snufjes"], ["handje", "handjes"], ["krop", "kroppen"],
+];
+
+const COUNT_UNIT_LOOKUP = new Map(COUNT_UNITS.flatMap(([singular, plural]) => [[singular, singular], [plural, singular]]));
+export const pluralOf = (unit: string) => COUNT_UNITS.find(([singular]) => singular === unit)?.[1] ?? unit;
+
+// Voor het invulveld in de editor
+export const UNIT_SUGGESTIONS = ["g", "kg", "ml", "l", ...COUNT_UNITS.map(([singular]) => singular)];
+
+// Herkende eenheid in enkelvoud, of null als het woord bij de naam hoort ("1 rookworst")
+export function normalizeUnit(word: string): string | null {
+  const unit = word.replace(/\.$/, "").toLowerCase();
+  return METRIC_UNITS[unit]?.unit ?? COUNT_UNIT_LOOKUP.get(unit) ?? null;
+}
+
+// "200g spinazie", "2-3 tomaten", "1 potje pesto"
+const LEADING_AMOUNT = new RegExp(String.raw`^(?:(${AMOUNT})\s*[-–]\s*)?(${AMOUNT})\s*(\p{L}+\.?)?\s*(.*)$`, "u");
+// "Parmezaanse kaas (50g)"
+const TRAILING_AMOUNT = new RegExp(String.raw`^(.*?)\s*\((${AMOUNT})\s*(\p{L}+)?\)$`, "u");
+
+/**
+ * Splitst een regel als "200g spinazie, gewassen" in hoeveelheid, eenheid, naam en notitie.
+ * Zonder herkende eenheid hoort het woord na het getal bij de naam. Van een bereik
+ * ("2-3 tomaten") wordt de ondergrens de hoeveelheid en blijft het bereik in de notitie staan.
+ */
+export function parseIngredient(text: string): Ingredient | null {
+  const cleaned = text.replace(LIST_MARKER, "").replace(/\*\*/g, "").trim();
+  if (!cleaned) return null;
+
+  const leading = cleaned.match(LEADING_AMOUNT);
+  const trailing = leading ? null : cleaned.match(TRAILING_AMOUNT);
+  const [rawQuantity, rawUnit, rest] = leading
+    ? [leading[1] ?? leading[2], leading[3] ?? "", leading[4]]
+    : trailing ? [trailing[2], trailing[3] ?? "", trailing[1]] : [null, "", cleaned];
+
+  const unit = normalizeUnit(rawUnit);
+  const nameWithNote = (unit === null ? `${rawUnit} ${rest}` : rest).trim();
+  // Toevoegingen na een komma of tussen haakjes zijn een notitie
+  const noteMatch = nameWithNote.match(/^(.*?)\s*(?:\((.+)\)|,\s*(.+))$/);
+  const name = (noteMatch ? noteMatch[1] : nameWithNote).trim();
+  const range = leading?.[1] ? [`${leading[1]}-${leading[2]}`, unit].filter(Boolean).join(" ") : "";
+  const note = [range, noteMatch ? (noteMatch[2] ?? noteMatch[3]).trim() : ""].filter(Boolean).join(", ");
+  if (!name) return null;
+
+  return {
+    name: name.substring(0, 100),
+    quantity: rawQuantity === null ? null : parseAmount(rawQuantity),
+    unit: unit ?? "",
+    ...(note && { note: note.substring(0, 100) }),
+  };
+}
+
+// AI en oudere cache-items leveren strings, objecten ({ item: "..." }) of getallen als string
+export function toIngredient(value: unknown): Ingredient | null {
+  if (typeof value === "string") return parseIngredient(value);
+  if (typeof value === "number") return parseIngredient(String(value));
+  if (!value || typeof value !== "object") return null;
+
+  const obj = value as Record<string, unknown>;
+  const rawName = obj.name ?? obj.item ?? obj.ingredient;
+  if (typeof rawName !== "string" || !rawName.trim()) return null;
+
+  const rawQuantity = obj.quantity ?? obj.amount;
+  const rawUnit = typeof obj.unit === "string" ? obj.unit.trim() : "";
+  // "200 g" als hoeveelheid: de eenheid zit er dan al in
+  const parsed = typeof rawQuantity === "string" ? parseIngredient(`${rawQuantity} ${rawUnit} x`) : null;
+  const quantity = typeof rawQuantity === "number" && Number.isFinite(rawQuantity) ? rawQuantity : parsed?.quantity ?? null;
+  const unit = rawUnit ? normalizeUnit(rawUnit) ?? rawUnit.toLowerCase() : parsed?.unit ?? "";
+  // "naar smaak" als hoeveelheid bewaren we als notitie
+  const note = typeof obj.note === "string" ? obj.note.trim() : parsed && parsed.quantity === null ? String(rawQuantity).trim() : parsed?.note ?? "";
+  const department = typeof obj.department === "string" && obj.department.trim() ? toDepartment(obj.department.trim()) : "";
+
+  return {
+    name: rawName.trim().substring(0, 100),
+    quantity,
+    unit: unit.substring(0, 20),
+    ...(note && { note: note.substring(0, 100) }),
+    ...(department && { department }),
+  };
+}
+
+export const normalizeIngredients = (value: unknown): Ingredient[] =>
+  Array.isArray(value)
+    ? value.map(toIngredient).filter((ingredient): ingredient is Ingredient => ingredient !== null).slice(0, MAX_INGREDIENTS)
+    : [];
+
+/**
+ * Ingrediënten van een maaltijd. Oudere maaltijden hebben alleen de vrije tekst in
+ * `ingredients` (per regel of met komma's), die lezen we hier als records in.
+ */
+export function getIngredients(meal: Pick<Meal, "ingredients" | "ingredientList">): Ingredient[] {
+  if (meal.ingredientList?.length) return meal.ingredientList;
+  const text = meal.ingredients?.trim() ?? "";
+  if (!text) return [];
+  const lines = text.includes("\n") ? text.split("\n") : text.split(/,\s+/);
+  return normalizeIngredients(lines);
+}
+
+export const formatQuantity = ({ quantity, unit }: Pick<Ingredient, "quantity" | "unit">) => {
+  if (quantity === null) return "";
+  if (!unit) return formatAmount(quantity);
+  return `${formatAmount(quantity)} ${quantity > 1 ? pluralOf(unit) : unit}`;
+};
+
+export const formatIngredient = (ingredient: Ingredient) =>
+  [formatQuantity(ingredient), ingredient.name].filter(Boolean).join(" ") + (ingredient.note ? ` (${ingredient.note})` : "");
+
+// Platte tekst, ook opgeslagen in `ingredients` zodat oudere versies van de app en de zoekfunctie blijven werken
+export const ingredientsToText = (ingredients: Ingredient[]) => ingredients.map(formatIngredient).join("\n");
+
+export const scaleIngredients = (ingredients: Ingredient[], from: number, to: number): Ingredient[] =>
+  from === to || from <= 0
+    ? ingredients
+    : ingredients.map(ingredient => ingredient.quantity === null
+      ? ingredient
+      : { ...ingredient, ...normalizeMetric(Math.round(ingredient.quantity * (to / from) * 100) / 100, ingredient.unit) });
+
+// Lege rijen uit de editor weg en geen undefined velden, want die weigert Firestore
+export const cleanIngredients = (ingredients: Ingredient[]): Ingredient[] =>
+  ingredients
+    .filter(ingredient => ingredient.name.trim())
+    .slice(0, MAX_INGREDIENTS)
+    .map(({ name, quantity, unit, note, department }) => ({
+      name: name.trim().substring(0, 100),
+      quantity: quantity !== null && Number.isFinite(quantity) && quantity > 0 ? quantity : null,
+      unit: unit.trim().substring(0, 20),
+      ...(note?.trim() && { note: note.trim().substring(0, 100) }),
+      ...(department && { department }),
+    }));
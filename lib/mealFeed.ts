@@ -0,0 +1,237 @@
+import {
+  collection,
+  documentId,
+  getDocs,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  QueryConstraint,
+  QueryDocumentSnapshot,
+  startAfter,
+  Timestamp,
+  Unsubscribe,
+  where,
+} from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import type { DietLabel } from "@/lib/dietary";
+import type { Meal } from "@/lib/meals";
+import type { Cuisine, MealType } from "@/lib/tags";
+import { DateRange, isInRange } from "@/lib/dateRange";
+
+export type FeedFilterMode = "all" | "mine" | "others";
+export type FeedSortField = "date" | "user" | "score" | "rating";
+export type FeedSortDirection = "asc" | "desc";
+
+export const FEED_PAGE_SIZE = 12;
+const CALENDAR_MAX_MEALS = 500; // ruim genoeg voor een maand van een huishouden
+export const STATS_MAX_MEALS = 2000;
+
+export interface FeedQueryOptions {
+  userId: string;
+  filterMode: FeedFilterMode;
+  sortField: FeedSortField;
+  sortDirection: FeedSortDirection;
+  dietLabel?: DietLabel; // Firestore staat maar één array-contains per query toe
+  favoritesOnly?: boolean; // gebruikt die ene array-contains ook, dus niet samen met dietLabel
+  mealType?: MealType;
+  cuisine?: Cuisine;
+  dateRange?: DateRange;
+}
+
+export interface FeedCursor {
+  snapshot: QueryDocumentSnapshot | null; // laatste document, startpunt voor de volgende pagina
+  withoutSortField: boolean; // al bij de maaltijden zonder score of beoordeling aangekomen
+}
+
+export interface FeedPage {
+  meals: Meal[];
+  cursor: FeedCursor;
+  hasMore: boolean;
+}
+
+const SORT_FIELDS: Record<FeedSortField, string> = {
+  date: "date",
+  user: "userEmail",
+  score: "healthScore",
+  rating: "ratingAverage",
+};
+
+// Niet elke maaltijd heeft deze velden, en een orderBy laat documenten zonder het veld weg.
+// Die maaltijden halen we daarna apart op en zetten we achteraan, nieuwste eerst.
+const OPTIONAL_SORT_FIELDS: Partial<Record<FeedSortField, "healthScore" | "ratingAverage">> = {
+  score: "healthScore",
+  rating: "ratingAverage",
+};
+// Bij het zoeken naar maaltijden zonder het veld lezen we ook de andere; dus in grotere stukken
+const WITHOUT_FIELD_BATCH_SIZE = 50;
+
+const toMeal = (doc: QueryDocumentSnapshot) => ({ id: doc.id, ...doc.data() } as Meal);
+
+const buildConstraints = ({ userId, filterMode, sortField, sortDirection, dietLabel, favoritesOnly, mealType, cuisine, dateRange }: FeedQueryOptions): QueryConstraint[] => {
+  const constraints: QueryConstraint[] = [];
+
+  if (filterMode === "mine") constraints.push(where("userId", "==", userId));
+  if (filterMode === "others") constraints.push(where("userId", "!=", userId));
+  if (favoritesOnly) constraints.push(where("favoritedBy", "array-contains", userId));
+  else if (dietLabel) constraints.push(where("dietLabels", "array-contains", dietLabel));
+  if (mealType) constraints.push(where("mealType", "==", mealType));
+  if (cuisine) constraints.push(where("cuisine", "==", cuisine));
+  if (dateRange?.from) constraints.push(where("date", ">=", dateRange.from));
+  if (dateRange?.to) constraints.push(where("date", "<=", dateRange.to));
+
+  constraints.push(orderBy(SORT_FIELDS[sortField], sortDirection));
+  // createdAt als tiebreaker, zodat de cursor een stabiele volgorde heeft
+  constraints.push(orderBy("createdAt", sortDirection));
+  return constraints;
+};
+
+/**
+ * Haalt één pagina van de feed op. Filters en sortering gebeuren in de query zelf;
+ * de benodigde samengestelde indexen staan in de README. Bij sorteren op score of smaak
+ * volgen na de laatste gesorteerde maaltijd de maaltijden zonder score of beoordeling.
+ */
+export async function fetchMealPage(options: FeedQueryOptions, cursor: FeedCursor | null = null): Promise<FeedPage> {
+  const optionalField = OPTIONAL_SORT_FIELDS[options.sortField];
+  if (optionalField && cursor?.withoutSortField) {
+    return fetchMealsWithoutField(options, optionalField, cursor.snapshot, FEED_PAGE_SIZE);
+  }
+
+  const constraints = buildConstraints(options);
+  if (cursor?.snapshot) constraints.push(startAfter(cursor.snapshot));
+  constraints.push(limit(FEED_PAGE_SIZE));
+
+  const snapshot = await getDocs(query(collection(db, "meals"), ...constraints));
+  const meals = snapshot.docs.map(toMeal);
+  const last = snapshot.docs[snapshot.docs.length - 1] ?? cursor?.snapshot ?? null;
+  if (snapshot.docs.length === FEED_PAGE_SIZE || !optionalField) {
+    return { meals, cursor: { snapshot: last, withoutSortField: false }, hasMore: snapshot.docs.length === FEED_PAGE_SIZE };
+  }
+
+  // Gesorteerde maaltijden op: de pagina aanvullen met de rest
+  const rest = await fetchMealsWithoutField(options, optionalField, null, FEED_PAGE_SIZE - meals.length);
+  return { meals: [...meals, ...rest.meals], cursor: rest.cursor, hasMore: rest.hasMore };
+}
+
+// Firestore kan niet filteren op een ontbrekend veld: we lopen de maaltijden op datum door
+async function fetchMealsWithoutField(
+  options: FeedQueryOptions,
+  field: "healthScore" | "ratingAverage",
+  startSnapshot: QueryDocumentSnapshot | null,
+  wanted: number,
+): Promise<FeedPage> {
+  const meals: Meal[] = [];
+  let snapshot = startSnapshot;
+  let hasMore = true;
+
+  while (hasMore && meals.length < wanted) {
+    const constraints = buildConstraints({ ...options, sortField: "date", sortDirection: "desc" });
+    if (snapshot) constraints.push(startAfter(snapshot));
+    constraints.push(limit(WITHOUT_FIELD_BATCH_SIZE));
+
+    const batch = await getDocs(query(collection(db, "meals"), ...constraints));
+    meals.push(...batch.docs.filter(doc => doc.get(field) === undefined).map(toMeal));
+    snapshot = batch.docs[batch.docs.length - 1] ?? snapshot;
+    hasMore = batch.docs.length === WITHOUT_FIELD_BATCH_SIZE;
+  }
+
+  return { meals, cursor: { snapshot, withoutSortField: true }, hasMore };
+}
+
+/**
+ * Alle maaltijden binnen een bereik (een kalendermaand of de periode voor de statistieken),
+ * oplopend op datum. Dezelfde filters als de feed, maar zonder paginering.
+ */
+export interface MealsInRange {
+  meals: Meal[]; // oudste eerst
+  truncated: boolean; // meer dan `max` maaltijden in de periode; de oudste zijn weggelaten
+}
+
+/**
+ * Haalt de maaltijden in een periode op, oudste eerst. Boven `max` vallen de
+ * oudste af in plaats van de nieuwste: we vragen aflopend op en draaien om.
+ */
+export async function fetchMealsInRange(options: FeedQueryOptions, dateRange: DateRange, max = CALENDAR_MAX_MEALS): Promise<MealsInRange> {
+  const constraints = buildConstraints({ ...options, sortField: "date", sortDirection: "desc", dateRange });
+  // Eén extra document, zodat we weten of er meer waren
+  constraints.push(limit(max + 1));
+
+  const snapshot = await getDocs(query(collection(db, "meals"), ...constraints));
+  return {
+    meals: snapshot.docs.slice(0, max).map(toMeal).reverse(),
+    truncated: snapshot.docs.length > max,
+  };
+}
+
+// Firestore staat maximaal 30 waarden in een "in" filter toe
+const IDS_PER_LISTENER = 30;
+
+/**
+ * Luistert naar maaltijden die na `since` zijn toegevoegd, door wie dan ook.
+ * Filteren op van mij/anderen en dieet gebeurt door de aanroeper met matchesFeedFilters.
+ */
+export function subscribeToNewMeals(since: Date, onAdded: (meals: Meal[]) => void): Unsubscribe {
+  const newMealsQuery = query(collection(db, "meals"), where("createdAt", ">", Timestamp.fromDate(since)));
+  return onSnapshot(newMealsQuery, (snapshot) => {
+    const added = snapshot.docChanges().filter(change => change.type === "added").map(change => toMeal(change.doc));
+    if (added.length > 0) onAdded(added);
+  }, (error) => console.error("Error listening for new meals:", error));
+}
+
+/**
+ * Houdt de al geladen maaltijden up-to-date: wijzigingen en verwijderingen door
+ * andere apparaten komen binnen via listeners op hun document ID's.
+ */
+export function subscribeToMealUpdates(
+  ids: string[],
+  { onModified, onRemoved }: { onModified: (meal: Meal) => void; onRemoved: (id: string) => void }
+): Unsubscribe {
+  const unsubscribers: Unsubscribe[] = [];
+  for (let i = 0; i < ids.length; i += IDS_PER_LISTENER) {
+    const chunk = ids.slice(i, i + IDS_PER_LISTENER);
+    unsubscribers.push(onSnapshot(query(collection(db, "meals"), where(documentId(), "in", chunk)), (snapshot) => {
+      for (const change of snapshot.docChanges()) {
+        if (change.type === "modified") onModified(toMeal(change.doc));
+        if (change.type === "removed") onRemoved(change.doc.id);
+      }
+    }, (error) => console.error("Error listening for meal updates:", error)));
+  }
+  return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+}
+
+// Zelfde filters als buildConstraints, voor maaltijden die via een listener binnenkomen
+export function matchesFeedFilters(meal: Meal, { userId, filterMode, dietLabel, favoritesOnly, mealType, cuisine, dateRange }: FeedQueryOptions): boolean {
+  if (filterMode === "mine" && meal.userId !== userId) return false;
+  if (filterMode === "others" && meal.userId === userId) return false;
+  if (dietLabel && !meal.dietLabels?.includes(dietLabel)) return false;
+  if (favoritesOnly && !meal.favoritedBy?.includes(userId)) return false;
+  if (mealType && meal.mealType !== mealType) return false;
+  if (cuisine && meal.cuisine !== cuisine) return false;
+  if (dateRange && !isInRange(meal.date, dateRange)) return false;
+  return true;
+}
+
+const sortValue = (meal: Meal, sortField: FeedSortField) => {
+  if (sortField === "user") return meal.userEmail;
+  if (sortField === "score") return meal.healthScore ?? 0;
+  if (sortField === "rating") return meal.ratingAverage ?? 0;
+  return meal.date;
+};
+
+// Zelfde volgorde als de query, om live binnengekomen maaltijden op de juiste plek te zetten
+export function compareMeals(a: Meal, b: Meal, sortField: FeedSortField, sortDirection: FeedSortDirection): number {
+  // Zonder score of beoordeling achteraan, onderling nieuwste eerst (zoals fetchMealPage)
+  const optionalField = OPTIONAL_SORT_FIELDS[sortField];
+  if (optionalField) {
+    const missingA = a[optionalField] === undefined;
+    const missingB = b[optionalField] === undefined;
+    if (missingA || missingB) return missingA && missingB ? b.date.localeCompare(a.date) : missingA ? 1 : -1;
+  }
+
+  const valueA = sortValue(a, sortField);
+  const valueB = sortValue(b, sortField);
+  const comparison = typeof valueA === "number" && typeof valueB === "number"
+    ? valueA - valueB
+    : String(valueA).localeCompare(String(valueB));
+  return sortDirection === "asc" ? comparison : -comparison;
+}
@@ -0,0 +1,47 @@
+import type { Timestamp } from "firebase/firestore";
+import type { Nutrition } from "@/lib/nutrition";
+import type { Allergen, DietLabel } from "@/lib/dietary";
+import type { Cuisine, MealType } from "@/lib/tags";
+import type { ReactionKey } from "@/lib/comments";
+import type { MealRating } from "@/lib/ratings";
+import type { Ingredient } from "@/lib/ingredients";
+
+export interface Meal {
+  id: string;
+  userId: string;
+  userEmail: string;
+  imageUrl: string; // eerste foto, blijft bestaan voor oudere maaltijden
+  imageUrls?: string[];
+  imageHashes?: string[]; // perceptuele hash per foto, om dubbele uploads te herkennen
+  isPlaceholderImage?: boolean; // gelogd zonder foto
+  title: string;
+  description: string;
+  ingredients?: string; // platte tekst; bij oudere maaltijden de enige bron
+  ingredientList?: Ingredient[];
+  recipe?: string;
+  shoppingList?: string;
+  servings?: number; // ontbreekt bij oudere maaltijden (dan 2 personen)
+  date: string;
+  healthScore?: number;
+  nutrition?: Nutrition | null;
+  allergens?: Allergen[]; // ontbreekt bij oudere maaltijden
+  dietLabels?: DietLabel[];
+  mealType?: MealType | null;
+  cuisine?: Cuisine | null;
+  tags?: string[];
+  favoritedBy?: string[]; // user ID's van wie dit een favoriet is
+  reactions?: Partial<Record<ReactionKey, string[]>>; // per emoji de user ID's
+  commentCount?: number; // de reacties zelf staan in de subcollectie comments
+  ratings?: Record<string, MealRating>; // smaakoordeel per user ID
+  ratingAverage?: number; // ontbreekt zolang niemand de maaltijd beoordeeld heeft
+  ratingCount?: number;
+  createdAt: Timestamp | string | null;
+}
+
+export const MAX_MEAL_PHOTOS = 4;
+
+// Oudere maaltijden hebben alleen een imageUrl, nieuwere een hele galerij
+export function getMealImages(meal: Pick<Meal, "imageUrl" | "imageUrls">): string[] {
+  if (meal.imageUrls && meal.imageUrls.length > 0) return meal.imageUrls;
+  return meal.imageUrl ? [meal.imageUrl] : [];
+}
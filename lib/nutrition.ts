@@ -0,0 +1,67 @@
+export type NutritionConfidence = "laag" | "gemiddeld" | "hoog";
+
+// Geschatte voedingswaarden per portie
+export interface Nutrition {
+  calories: number; // kcal
+  protein: number; // gram
+  carbs: number; // gram
+  fat: number; // gram
+  fiber: number; // gram
+  salt: number; // gram
+  confidence: NutritionConfidence;
+}
+
+export type NutritionField = Exclude<keyof Nutrition, "confidence">;
+
+export const NUTRITION_FIELDS: { key: NutritionField; label: string; unit: string; max: number }[] = [
+  { key: "calories", label: "Calorieën", unit: "kcal", max: 5000 },
+  { key: "protein", label: "Eiwit", unit: "g", max: 500 },
+  { key: "carbs", label: "Koolhydraten", unit: "g", max: 1000 },
+  { key: "fat", label: "Vet", unit: "g", max: 500 },
+  { key: "fiber", label: "Vezels", unit: "g", max: 200 },
+  { key: "salt", label: "Zout", unit: "g", max: 100 },
+];
+
+export const CONFIDENCE_LABELS: Record<NutritionConfidence, string> = {
+  laag: "Lage zekerheid",
+  gemiddeld: "Redelijke zekerheid",
+  hoog: "Hoge zekerheid",
+};
+
+export const EMPTY_NUTRITION: Nutrition = {
+  calories: 0,
+  protein: 0,
+  carbs: 0,
+  fat: 0,
+  fiber: 0,
+  salt: 0,
+  confidence: "laag",
+};
+
+const toAmount = (value: unknown, max: number) => {
+  // AI geeft soms "450 kcal" of "12,5 g" terug
+  const num = typeof value === "number" ? value : parseFloat(String(value ?? "").replace(",", "."));
+  if (!Number.isFinite(num) || num < 0) return 0;
+  return Math.min(Math.round(num * 10) / 10, max);
+};
+
+/**
+ * Zet (AI- of Firestore-)invoer om naar een geldig Nutrition object.
+ * Geeft undefined terug als er helemaal geen voedingswaarden in zitten.
+ */
+export function normalizeNutrition(raw: unknown): Nutrition | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const input = raw as Record<string, unknown>;
+
+  const nutrition = { ...EMPTY_NUTRITION };
+  let hasValue = false;
+  for (const field of NUTRITION_FIELDS) {
+    if (input[field.key] !== undefined && input[field.key] !== null) hasValue = true;
+    nutrition[field.key] = toAmount(input[field.key], field.max);
+  }
+  if (!hasValue) return undefined;
+
+  const confidence = String(input.confidence ?? "").toLowerCase();
+  nutrition.confidence = confidence in CONFIDENCE_LABELS ? (confidence as NutritionConfidence) : "laag";
+  return nutrition;
+}
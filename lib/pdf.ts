@@ -0,0 +1,179 @@
+// Minimale PDF-opmaak voor recepten: de standaardletters Helvetica en Helvetica-Bold
+// (geen fonts inbedden) en JPEG-foto's die ongewijzigd in het bestand kunnen.
+
+export type PdfFont = "regular" | "bold";
+
+export interface PdfImage {
+  data: Uint8Array<ArrayBuffer>; // JPEG
+  width: number;
+  height: number;
+}
+
+interface TextOptions {
+  size?: number;
+  font?: PdfFont;
+  color?: [number, number, number]; // RGB 0 t/m 1
+  indent?: number; // inspringen van de tweede en volgende regels
+  prefix?: string; // "•" of "1." in de marge vóór de eerste regel
+  lineHeight?: number;
+}
+
+const FONT_NAMES: Record<PdfFont, string> = { regular: "F1", bold: "F2" };
+
+// Tekenbreedtes van Helvetica (per 1000 eenheden) voor ASCII 32 t/m 126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+// Vet is iets breder; liever een woord te vroeg afbreken dan buiten de marge
+const BOLD_FACTOR = 1.08;
+
+// Tekens buiten Latin-1 die WinAnsi wel kent
+const WIN_ANSI_EXTRA: Record<string, number> = {
+  "€": 0x80, "‚": 0x82, "„": 0x84, "…": 0x85, "‘": 0x91, "’": 0x92, "“": 0x93, "”": 0x94, "•": 0x95, "–": 0x96, "—": 0x97,
+};
+
+// Naar WinAnsi; emoji en andere tekens die Helvetica niet heeft vallen weg
+export const toWinAnsi = (text: string) =>
+  Array.from(text.normalize("NFC"))
+    .map(char => {
+      const code = char.codePointAt(0) ?? 0;
+      if (code === 0x09) return " ";
+      if ((code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff)) return char;
+      return WIN_ANSI_EXTRA[char] ? String.fromCharCode(WIN_ANSI_EXTRA[char]) : "";
+    })
+    .join("")
+    .replace(/ {2,}/g, " ");
+
+export const textWidth = (text: string, size: number, font: PdfFont = "regular") => {
+  let units = 0;
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    // Letters met accenten zijn ongeveer zo breed als een gewone kleine letter
+    units += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556;
+  }
+  return (units / 1000) * size * (font === "bold" ? BOLD_FACTOR : 1);
+};
+
+export function wrapText(text: string, size: number, font: PdfFont, maxWidth: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split("\n")) {
+    let line = "";
+    for (const word of paragraph.split(" ").filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (!line || textWidth(candidate, size, font) <= maxWidth) {
+        line = candidate;
+      } else {
+        lines.push(line);
+        line = word;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+const escapeText = (text: string) => text.replace(/[\\()]/g, match => `\\${match}`);
+const num = (value: number) => String(Math.round(value * 100) / 100);
+
+/**
+ * Schrijft tekst van boven naar beneden en begint vanzelf een nieuwe pagina als
+ * het einde bereikt is. Maten in punten; A4 is 595 x 842.
+ */
+export function createPdfLayout({ width = 595, height = 842, margin = 50 } = {}) {
+  const pages: string[][] = [[]];
+  let y = height - margin;
+  let image: PdfImage | null = null;
+  const contentWidth = width - 2 * margin;
+  const current = () => pages[pages.length - 1];
+
+  const ensureSpace = (needed: number) => {
+    if (y - needed >= margin) return;
+    pages.push([]);
+    y = height - margin;
+  };
+
+  const drawLine = (line: string, x: number, size: number, font: PdfFont, color: [number, number, number]) => {
+    current().push(`BT /${FONT_NAMES[font]} ${num(size)} Tf ${color.map(num).join(" ")} rg ${num(x)} ${num(y)} Td (${escapeText(line)}) Tj ET`);
+  };
+
+  return {
+    contentWidth,
+
+    text(text: string, { size = 11, font = "regular", color = [0.2, 0.2, 0.2], indent = 0, prefix, lineHeight = 1.4 }: TextOptions = {}) {
+      const lines = wrapText(toWinAnsi(text), size, font, contentWidth - indent);
+      for (const [index, line] of lines.entries()) {
+        ensureSpace(size * lineHeight);
+        y -= size * lineHeight;
+        if (index === 0 && prefix) drawLine(toWinAnsi(prefix), margin, size, font, color);
+        drawLine(line, margin + indent, size, font, color);
+      }
+    },
+
+    space(points: number) {
+      y -= points;
+    },
+
+    ensureSpace,
+
+    // Eén foto per document, geschaald op de beschikbare breedte
+    image(photo: PdfImage, maxHeight: number) {
+      const scale = Math.min(contentWidth / photo.width, maxHeight / photo.height);
+      const drawWidth = photo.width * scale;
+      const drawHeight = photo.height * scale;
+      ensureSpace(drawHeight);
+      y -= drawHeight;
+      image = photo;
+      current().push(`q ${num(drawWidth)} 0 0 ${num(drawHeight)} ${num(margin + (contentWidth - drawWidth) / 2)} ${num(y)} cm /Im1 Do Q`);
+    },
+
+    toBlob(title: string): Blob {
+      const objects: (string | Uint8Array<ArrayBuffer>)[][] = [];
+      const pageIds = pages.map((_, index) => 6 + index * 2);
+
+      objects[1] = ["<< /Type /Catalog /Pages 2 0 R >>"];
+      objects[2] = [`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`];
+      objects[3] = ["<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>"];
+      objects[4] = ["<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>"];
+      objects[5] = image
+        ? [`<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.data.length} >>\nstream\n`, image.data, "\nendstream"]
+        : ["<< >>"];
+      const resources = `<< /Font << /F1 3 0 R /F2 4 0 R >>${image ? " /XObject << /Im1 5 0 R >>" : ""} >>`;
+      pages.forEach((commands, index) => {
+        const content = commands.join("\n");
+        objects[pageIds[index]] = [`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Resources ${resources} /Contents ${pageIds[index] + 1} 0 R >>`];
+        objects[pageIds[index] + 1] = [`<< /Length ${content.length} >>\nstream\n${content}\nendstream`];
+      });
+      const infoId = objects.length;
+      objects[infoId] = [`<< /Title (${escapeText(toWinAnsi(title))}) /Producer (MaaltijdPlus) >>`];
+
+      // Tekst als Latin-1 bytes (WinAnsi); de offsets in de xref-tabel tellen in bytes
+      const toBytes = (part: string | Uint8Array<ArrayBuffer>) =>
+        typeof part === "string" ? Uint8Array.from(part, char => char.charCodeAt(0)) : part;
+      const chunks: Uint8Array<ArrayBuffer>[] = [toBytes("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n")];
+      let offset = chunks[0].length;
+      const offsets: number[] = [];
+      for (let id = 1; id < objects.length; id++) {
+        offsets[id] = offset;
+        for (const part of [`${id} 0 obj\n`, ...objects[id], "\nendobj\n"]) {
+          const bytes = toBytes(part);
+          chunks.push(bytes);
+          offset += bytes.length;
+        }
+      }
+
+      const xref = [
+        `xref\n0 ${objects.length}\n0000000000 65535 f \n`,
+        ...offsets.slice(1).map(value => `${String(value).padStart(10, "0")} 00000 n \n`),
+        `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${offset}\n%%EOF\n`,
+      ].join("");
+      chunks.push(toBytes(xref));
+
+      return new Blob(chunks, { type: "application/pdf" });
+    },
+  };
+}
@@ -0,0 +1,50 @@
+// Simpele illustratie voor maaltijden die zonder foto worden gelogd
+export function createPlaceholderImage(mealTitle: string): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const canvas = document.createElement("canvas");
+    canvas.width = 800;
+    canvas.height = 600;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) {
+      reject(new Error("Canvas not supported"));
+      return;
+    }
+
+    const gradient = ctx.createLinearGradient(0, 0, canvas.width, canvas.height);
+    gradient.addColorStop(0, "#2563eb");
+    gradient.addColorStop(1, "#4f46e5");
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.font = "160px sans-serif";
+    ctx.fillText("🍽️", canvas.width / 2, 230);
+
+    // Titel over maximaal twee regels
+    ctx.fillStyle = "#ffffff";
+    ctx.font = "bold 44px sans-serif";
+    const words = mealTitle.split(/\s+/);
+    const lines: string[] = [];
+    let line = "";
+    for (const word of words) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (ctx.measureText(candidate).width > canvas.width - 120 && line) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    if (line) lines.push(line);
+    lines.slice(0, 2).forEach((text, i) => ctx.fillText(text, canvas.width / 2, 420 + i * 56));
+
+    canvas.toBlob((blob) => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error("Canvas to Blob failed"));
+      }
+    }, "image/jpeg", 0.8);
+  });
+}
@@ -0,0 +1,105 @@
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+  Timestamp,
+  Unsubscribe,
+  updateDoc,
+  where,
+} from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import type { Meal } from "@/lib/meals";
+import type { Ingredient } from "@/lib/ingredients";
+import { dishKey } from "@/lib/favorites";
+import { DateRange, addDays, startOfWeek, toDateKey } from "@/lib/dateRange";
+
+const HISTORY_MAX_MEALS = 300;
+
+/**
+ * Een gepland gerecht op een dag. Recept en boodschappenlijst worden bij het plannen
+ * gekopieerd, zodat het plan blijft kloppen als de oorspronkelijke maaltijd verandert.
+ * Het weekplan is van het hele huishouden, net als de feed.
+ */
+export interface PlannedMeal {
+  id: string;
+  date: string;
+  title: string;
+  note?: string;
+  sourceMealId?: string | null; // null voor een nieuw idee
+  imageUrl?: string | null;
+  ingredients?: string;
+  ingredientList?: Ingredient[];
+  recipe?: string;
+  shoppingList?: string;
+  servings?: number;
+  userId: string;
+  userEmail: string;
+  loggedMealId?: string | null; // gezet zodra het gerecht echt gegeten en gelogd is
+  createdAt: Timestamp | null;
+}
+
+export type PlannerSource = { type: "meal"; meal: Meal } | { type: "idea"; title: string };
+
+const plannedMeals = collection(db, "planned_meals");
+
+// De zeven dagen van de week waarin `date` valt, maandag eerst
+export const getWeekDays = (date: Date): Date[] => Array.from({ length: 7 }, (_, index) => addDays(startOfWeek(date), index));
+
+export function subscribeToPlannedMeals({ from, to }: Required<DateRange>, onChange: (meals: PlannedMeal[]) => void): Unsubscribe {
+  const planQuery = query(plannedMeals, where("date", ">=", from), where("date", "<=", to));
+  return onSnapshot(planQuery, (snapshot) => {
+    const meals = snapshot.docs.map(d => ({ id: d.id, ...d.data({ serverTimestamps: "estimate" }) } as PlannedMeal));
+    onChange(meals.sort((a, b) => (a.createdAt?.toMillis() ?? 0) - (b.createdAt?.toMillis() ?? 0)));
+  }, (error) => console.error("Error listening for planned meals:", error));
+}
+
+export async function planMeal(date: string, source: PlannerSource, author: { uid: string; email: string | null }): Promise<void> {
+  const title = source.type === "meal" ? source.meal.title : source.title.trim();
+  if (!title) throw new Error("Geef het idee een naam");
+
+  await addDoc(plannedMeals, {
+    date,
+    title: title.substring(0, 100),
+    sourceMealId: source.type === "meal" ? source.meal.id : null,
+    imageUrl: source.type === "meal" && !source.meal.isPlaceholderImage ? source.meal.imageUrl : null,
+    ingredients: source.type === "meal" ? source.meal.ingredients ?? "" : "",
+    ingredientList: source.type === "meal" ? source.meal.ingredientList ?? [] : [],
+    recipe: source.type === "meal" ? source.meal.recipe ?? "" : "",
+    shoppingList: source.type === "meal" ? source.meal.shoppingList ?? "" : "",
+    ...(source.type === "meal" && source.meal.servings && { servings: source.meal.servings }),
+    userId: author.uid,
+    userEmail: author.email ?? "",
+    loggedMealId: null,
+    createdAt: serverTimestamp(),
+  });
+}
+
+export const movePlannedMeal = (id: string, date: string) => updateDoc(doc(plannedMeals, id), { date });
+
+export const removePlannedMeal = (id: string) => deleteDoc(doc(plannedMeals, id));
+
+export const markPlannedMealLogged = (id: string, mealId: string) => updateDoc(doc(plannedMeals, id), { loggedMealId: mealId });
+
+// Eerder gegeten gerechten om uit te kiezen: per titel alleen de meest recente keer
+export async function fetchPlannerHistory(): Promise<Meal[]> {
+  const snapshot = await getDocs(query(collection(db, "meals"), orderBy("date", "desc"), limit(HISTORY_MAX_MEALS)));
+  const seen = new Set<string>();
+  const history: Meal[] = [];
+  for (const d of snapshot.docs) {
+    const meal = { id: d.id, ...d.data() } as Meal;
+    const key = dishKey(meal);
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    history.push(meal);
+  }
+  return history;
+}
+
+export const isPast = (dateKey: string) => dateKey < toDateKey(new Date());
@@ -0,0 +1,62 @@
+import { verifyIdToken } from "@/lib/auth/verifyIdToken";
+import { hasServiceAccount } from "@/lib/auth/serviceAccount";
+import { createRateLimiter, formatRetryAfter, RateLimitError, RateLimitResult, RateLimitStore } from "./index";
+import { createMemoryStore } from "./memoryStore";
+import { createFirestoreStore } from "./firestoreStore";
+
+const ANALYSIS_LIMIT = 20; // max 20 analyses per hour per user
+const ANALYSIS_WINDOW_MS = 60 * 60 * 1000; // 1 hour
+
+// Als Firestore niet bereikbaar is, liever per instantie limiteren dan helemaal niet.
+// Wel hard loggen: met de memory store geldt de limiet per instantie en per cold start.
+const withFallback = (primary: RateLimitStore, fallback: RateLimitStore): RateLimitStore => ({
+  async update(key, fn, ttlMs) {
+    try {
+      return await primary.update(key, fn, ttlMs);
+    } catch (error) {
+      console.error("[RateLimit] Firestore store failed, limiting per instance in memory only:", error);
+      return fallback.update(key, fn, ttlMs);
+    }
+  },
+});
+
+// Kies de opslag via RATE_LIMIT_STORE (standaard: firestore, met het service account)
+const createStore = (): RateLimitStore => {
+  if (process.env.RATE_LIMIT_STORE === "memory") return createMemoryStore();
+  if (!hasServiceAccount()) {
+    console.error("[RateLimit] FIREBASE_CLIENT_EMAIL/FIREBASE_PRIVATE_KEY missing: the analysis limit is kept in memory per instance, not shared.");
+    return createMemoryStore();
+  }
+  return withFallback(createFirestoreStore(), createMemoryStore());
+};
+
+const analysisLimiter = createRateLimiter({
+  name: "analysis",
+  limit: ANALYSIS_LIMIT,
+  windowMs: ANALYSIS_WINDOW_MS,
+  store: createStore(),
+});
+
+/**
+ * Ingelogde gebruikers krijgen hun eigen limiet, zodat een heel huishouden
+ * achter één NAT-adres elkaar niet in de weg zit. Anders valt het terug op het IP.
+ */
+export async function getRateLimitKey(headers: { get(name: string): string | null }, idToken?: string | null) {
+  const user = await verifyIdToken(idToken);
+  if (user) return `user:${user.uid}`;
+
+  const ip = headers.get("x-forwarded-for")?.split(",")[0].trim() || headers.get("x-real-ip") || "unknown";
+  return `ip:${ip}`;
+}
+
+// Foto- en tekstanalyses delen dezelfde limiet
+export async function enforceAnalysisRateLimit(key: string): Promise<RateLimitResult> {
+  const result = await analysisLimiter.check(key);
+  if (!result.allowed) {
+    throw new RateLimitError(
+      `Je hebt de maximale limiet voor analyses per uur bereikt. Probeer het over ${formatRetryAfter(result.retryAfter)} opnieuw.`,
+      result
+    );
+  }
+  return result;
+}
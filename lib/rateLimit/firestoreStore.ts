@@ -0,0 +1,26 @@
+import { updateServerDocument } from "@/lib/firestoreServer";
+import type { RateLimitStore } from "./index";
+
+const COLLECTION = "rate_limits";
+
+/**
+ * Gedeelde opslag via Firestore, zodat alle serverinstanties dezelfde tellers zien.
+ * Schrijft met het service account: in de rules mag geen enkele client bij rate_limits,
+ * anders kan een browser zijn eigen teller resetten.
+ * expiresAt kan als TTL-veld in Firestore worden ingesteld om oude documenten op te ruimen.
+ */
+export function createFirestoreStore(): RateLimitStore {
+  return {
+    update(key, fn, ttlMs) {
+      // Document IDs mogen geen slashes bevatten
+      return updateServerDocument(COLLECTION, encodeURIComponent(key), (current) => {
+        const previous = Array.isArray(current?.hits) ? (current.hits as number[]) : [];
+        const hits = fn(previous);
+        return {
+          fields: { hits, updatedAt: new Date(), expiresAt: new Date(Date.now() + ttlMs) },
+          result: hits,
+        };
+      });
+    },
+  };
+}
@@ -0,0 +1,85 @@
+import { createMemoryStore } from "./memoryStore";
+
+// Opslag voor de hits per sleutel; moet een atomische read-modify-write bieden
+export interface RateLimitStore {
+  update(key: string, fn: (hits: number[]) => number[], ttlMs: number): Promise<number[]>;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: number; // ms timestamp waarop er weer ruimte is
+  retryAfter: number; // seconden, 0 als toegestaan
+}
+
+export interface RateLimiter {
+  check(key: string): Promise<RateLimitResult>;
+}
+
+export class RateLimitError extends Error {
+  result: RateLimitResult;
+  retryAfter: number;
+
+  constructor(message: string, result: RateLimitResult) {
+    super(message);
+    this.name = "RateLimitError";
+    this.result = result;
+    this.retryAfter = result.retryAfter;
+  }
+}
+
+/**
+ * Sliding window limiter: een request telt mee zolang het binnen de laatste windowMs valt,
+ * dus er is geen harde reset op een vast tijdstip zoals bij een vaste teller.
+ */
+export function createRateLimiter({ name, limit, windowMs, store = createMemoryStore() }: {
+  name: string;
+  limit: number;
+  windowMs: number;
+  store?: RateLimitStore;
+}): RateLimiter {
+  return {
+    async check(key) {
+      const now = Date.now();
+      let allowed = false;
+
+      const hits = await store.update(`${name}:${key}`, (previous) => {
+        const recent = previous.filter(timestamp => timestamp > now - windowMs);
+        allowed = recent.length < limit;
+        return allowed ? [...recent, now] : recent;
+      }, windowMs);
+
+      const oldest = hits.length > 0 ? Math.min(...hits) : now;
+      const resetAt = oldest + windowMs;
+      return {
+        allowed,
+        limit,
+        remaining: Math.max(limit - hits.length, 0),
+        resetAt,
+        retryAfter: allowed ? 0 : Math.max(Math.ceil((resetAt - now) / 1000), 1),
+      };
+    },
+  };
+}
+
+// Standaard Retry-After en RateLimit-* headers (draft-ietf-httpapi-ratelimit-headers)
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    "RateLimit-Limit": String(result.limit),
+    "RateLimit-Remaining": String(result.remaining),
+    "RateLimit-Reset": String(Math.max(Math.ceil((result.resetAt - Date.now()) / 1000), 0)),
+  };
+  if (!result.allowed) {
+    headers["Retry-After"] = String(result.retryAfter);
+  }
+  return headers;
+}
+
+export function formatRetryAfter(seconds: number): string {
+  if (seconds < 60) return `${seconds} seconden`;
+  const minutes = Math.ceil(seconds / 60);
+  return minutes === 1 ? "1 minuut" : `${minutes} minuten`;
+}
+
+export { createMemoryStore };
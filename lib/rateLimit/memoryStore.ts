@@ -0,0 +1,15 @@
+import { createExpiringMap } from "@/lib/expiringMap";
+import type { RateLimitStore } from "./index";
+
+// Tellers per instantie: elke serverinstantie en elke cold start begint opnieuw bij nul
+export function createMemoryStore(): RateLimitStore {
+  const entries = createExpiringMap<number[]>(1000);
+
+  return {
+    async update(key, fn, ttlMs) {
+      const hits = fn(entries.get(key) ?? []);
+      entries.set(key, hits, ttlMs);
+      return hits;
+    },
+  };
+}
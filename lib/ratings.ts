@@ -0,0 +1,70 @@
+import { deleteField, doc, runTransaction } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import type { Meal } from "@/lib/meals";
+
+export const MAX_RATING = 5;
+export const MAX_RATING_NOTE_LENGTH = 280;
+
+// Smaakoordeel van één huisgenoot, los van de healthScore van de AI
+export interface MealRating {
+  score: number; // 1-5
+  note?: string;
+  userEmail: string;
+  updatedAt: string;
+}
+
+export type RatingSummary = Pick<Meal, "ratings" | "ratingAverage" | "ratingCount">;
+
+export function summarizeRatings(ratings: Record<string, MealRating>): { ratingAverage: number | null; ratingCount: number } {
+  const scores = Object.values(ratings).map(rating => rating.score);
+  if (scores.length === 0) return { ratingAverage: null, ratingCount: 0 };
+  const average = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+  return { ratingAverage: Math.round(average * 10) / 10, ratingCount: scores.length };
+}
+
+/**
+ * Schrijft (of wist, met score null) het oordeel van één gebruiker en rekent het gemiddelde
+ * opnieuw uit. In een transactie, zodat gelijktijdige beoordelingen elkaar niet overschrijven.
+ * ratingAverage staat op de maaltijd zodat de feed erop kan sorteren.
+ */
+export async function saveRating(
+  mealId: string,
+  author: { uid: string; email: string | null },
+  score: number | null,
+  note = ""
+): Promise<RatingSummary> {
+  if (score !== null && (!Number.isInteger(score) || score < 1 || score > MAX_RATING)) {
+    throw new Error(`Kies 1 tot ${MAX_RATING} sterren`);
+  }
+  const trimmedNote = note.trim();
+  if (trimmedNote.length > MAX_RATING_NOTE_LENGTH) throw new Error(`Notitie is te lang (max ${MAX_RATING_NOTE_LENGTH} tekens)`);
+
+  const mealRef = doc(db, "meals", mealId);
+  return runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(mealRef);
+    if (!snapshot.exists()) throw new Error("Maaltijd bestaat niet meer");
+
+    const ratings: Record<string, MealRating> = { ...(snapshot.data().ratings ?? {}) };
+    if (score === null) {
+      delete ratings[author.uid];
+    } else {
+      ratings[author.uid] = {
+        score,
+        ...(trimmedNote && { note: trimmedNote }),
+        userEmail: author.email ?? "",
+        updatedAt: new Date().toISOString(),
+      };
+    }
+
+    const { ratingAverage, ratingCount } = summarizeRatings(ratings);
+    transaction.update(mealRef, {
+      [`ratings.${author.uid}`]: ratings[author.uid] ?? deleteField(),
+      // Zonder beoordelingen het veld weghalen, net als maaltijden zonder healthScore bij sorteren op score
+      ratingAverage: ratingAverage ?? deleteField(),
+      ratingCount,
+    });
+    return { ratings, ratingAverage: ratingAverage ?? undefined, ratingCount };
+  });
+}
+
+export const ratingStars = (score: number) => "★".repeat(Math.round(score)) + "☆".repeat(MAX_RATING - Math.round(score));
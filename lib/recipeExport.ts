@@ -0,0 +1,244 @@
+import { Meal, getMealImages } from "@/lib/meals";
+import { DietLabel } from "@/lib/dietary";
+import { DEFAULT_SERVINGS, LIST_MARKER, servingsLabel } from "@/lib/servings";
+import { cuisineInfo, mealTypeInfo } from "@/lib/tags";
+import { NUTRITION_FIELDS } from "@/lib/nutrition";
+import { formatIngredient, getIngredients } from "@/lib/ingredients";
+import { createPdfLayout, PdfImage } from "@/lib/pdf";
+
+export type RecipeFormat = "jsonld" | "markdown" | "pdf";
+
+export const RECIPE_FORMATS: { key: RecipeFormat; label: string; emoji: string; extension: string }[] = [
+  { key: "pdf", label: "PDF", emoji: "📄", extension: "pdf" },
+  { key: "markdown", label: "Markdown", emoji: "📝", extension: "md" },
+  { key: "jsonld", label: "schema.org (JSON-LD)", emoji: "🧾", extension: "recipe.json" },
+];
+
+// Onze dieetlabels als schema.org RestrictedDiet; lactosevrij komt het dichtst bij LowLactoseDiet
+const SCHEMA_DIETS: Record<DietLabel, string> = {
+  vegetarian: "https://schema.org/VegetarianDiet",
+  vegan: "https://schema.org/VeganDiet",
+  halal: "https://schema.org/HalalDiet",
+  "lactose-free": "https://schema.org/LowLactoseDiet",
+};
+
+// Een foto groter dan dit maakt de PDF alleen zwaarder, niet mooier
+const PDF_PHOTO_MAX_SIZE = 1200;
+
+const authorName = (meal: Meal) => meal.userEmail.split("@")[0];
+const photoUrls = (meal: Meal) => meal.isPlaceholderImage ? [] : getMealImages(meal);
+
+// De bereiding staat als losse regels, vaak al genummerd ("1. ..." of "Stap 1: ...")
+export const recipeSteps = (recipe?: string) =>
+  (recipe ?? "")
+    .split("\n")
+    .map(line => line.replace(LIST_MARKER, "").replace(/^\s*stap \d+[:.]?\s*/i, "").trim())
+    .filter(Boolean);
+
+const metaParts = (meal: Meal) => {
+  const servings = meal.servings ?? DEFAULT_SERVINGS;
+  const mealType = mealTypeInfo(meal.mealType);
+  const cuisine = cuisineInfo(meal.cuisine);
+  return [
+    new Date(meal.date).toLocaleDateString("nl-NL", { day: "numeric", month: "long", year: "numeric" }),
+    `voor ${servingsLabel(servings)}`,
+    mealType?.label,
+    cuisine?.label,
+    meal.healthScore ? `gezondheidsscore ${meal.healthScore}/10` : undefined,
+    meal.ratingCount ? `smaak ${meal.ratingAverage?.toFixed(1)}/5 (${meal.ratingCount})` : undefined,
+  ].filter((part): part is string => !!part);
+};
+
+const nutritionParts = (meal: Meal) =>
+  meal.nutrition ? NUTRITION_FIELDS.map(field => `${field.label} ${meal.nutrition![field.key]} ${field.unit}`) : [];
+
+/**
+ * Een schema.org Recipe, zodat receptenapps (Paprika, Mealie, Recipe Keeper) de
+ * maaltijd kunnen importeren. Lege velden laten we weg in plaats van ze leeg te sturen.
+ */
+export function toRecipeJsonLd(meal: Meal): Record<string, unknown> {
+  const servings = meal.servings ?? DEFAULT_SERVINGS;
+  const steps = recipeSteps(meal.recipe);
+  const images = photoUrls(meal);
+  const recipe: Record<string, unknown> = {
+    "@context": "https://schema.org",
+    "@type": "Recipe",
+    name: meal.title,
+    description: meal.description || undefined,
+    image: images.length > 0 ? images : undefined,
+    datePublished: meal.date,
+    author: { "@type": "Person", name: authorName(meal) },
+    recipeYield: servingsLabel(servings),
+    recipeCategory: mealTypeInfo(meal.mealType)?.label,
+    recipeCuisine: cuisineInfo(meal.cuisine)?.label,
+    keywords: meal.tags?.length ? meal.tags.join(", ") : undefined,
+    recipeIngredient: getIngredients(meal).map(formatIngredient),
+    recipeInstructions: steps.length > 0 ? steps.map(text => ({ "@type": "HowToStep", text })) : undefined,
+    suitableForDiet: meal.dietLabels?.length ? meal.dietLabels.map(label => SCHEMA_DIETS[label]) : undefined,
+  };
+
+  if (meal.nutrition) {
+    const { calories, protein, carbs, fat, fiber, salt } = meal.nutrition;
+    recipe.nutrition = {
+      "@type": "NutritionInformation",
+      servingSize: "1 portie",
+      calories: `${calories} kcal`,
+      proteinContent: `${protein} g`,
+      carbohydrateContent: `${carbs} g`,
+      fatContent: `${fat} g`,
+      fiberContent: `${fiber} g`,
+      sodiumContent: `${Math.round(salt * 400)} mg`, // zout is voor 40% natrium
+    };
+  }
+  if (meal.ratingCount && meal.ratingAverage) {
+    recipe.aggregateRating = {
+      "@type": "AggregateRating",
+      ratingValue: Math.round(meal.ratingAverage * 10) / 10,
+      ratingCount: meal.ratingCount,
+      bestRating: 5,
+      worstRating: 1,
+    };
+  }
+
+  return JSON.parse(JSON.stringify(recipe)); // haalt de undefined velden weg
+}
+
+export function toRecipeMarkdown(meal: Meal): string {
+  const servings = meal.servings ?? DEFAULT_SERVINGS;
+  const ingredients = getIngredients(meal);
+  const steps = recipeSteps(meal.recipe);
+  const nutrition = nutritionParts(meal);
+  const [photo] = photoUrls(meal);
+
+  const sections = [
+    `# ${meal.title}`,
+    photo ? `![${meal.title}](${photo})` : "",
+    meal.description,
+    `_${metaParts(meal).join(" · ")}_`,
+    ingredients.length > 0
+      ? `## Ingrediënten (${servingsLabel(servings)})\n\n${ingredients.map(ingredient => `- ${formatIngredient(ingredient)}`).join("\n")}`
+      : "",
+    steps.length > 0 ? `## Bereiding\n\n${steps.map((step, index) => `${index + 1}. ${step}`).join("\n")}` : "",
+    nutrition.length > 0 ? `## Voedingswaarden per portie\n\n${nutrition.map(part => `- ${part}`).join("\n")}` : "",
+    meal.tags?.length ? meal.tags.map(tag => `#${tag.replace(/\s+/g, "-")}`).join(" ") : "",
+  ];
+
+  return sections.filter(Boolean).join("\n\n") + "\n";
+}
+
+/**
+ * Haalt de eerste foto via de proxy op en zet hem om naar een JPEG van hooguit
+ * PDF_PHOTO_MAX_SIZE pixels, want de PDF kan alleen JPEG rechtstreeks opnemen.
+ */
+export async function loadPdfPhoto(meal: Meal): Promise<PdfImage | null> {
+  const [url] = photoUrls(meal);
+  if (!url) return null;
+
+  const response = await fetch(`/api/proxy-image?url=${encodeURIComponent(url)}`);
+  if (!response.ok) throw new Error(`Foto ophalen mislukt (${response.status})`);
+  const bitmap = await createImageBitmap(await response.blob());
+
+  const scale = Math.min(1, PDF_PHOTO_MAX_SIZE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas not supported");
+  // Transparante delen (PNG) worden wit in plaats van zwart
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  const jpeg = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, "image/jpeg", 0.85));
+  if (!jpeg) throw new Error("Foto omzetten mislukt");
+  return { data: new Uint8Array(await jpeg.arrayBuffer()), width: canvas.width, height: canvas.height };
+}
+
+const HEADING_COLOR: [number, number, number] = [0.92, 0.35, 0.05]; // oranje, zoals in de app
+const MUTED_COLOR: [number, number, number] = [0.45, 0.47, 0.52];
+
+// Een recept-PDF van één of meer A4'tjes: titel, foto, ingrediënten en de stappen
+export function buildRecipePdf(meal: Meal, photo: PdfImage | null): Blob {
+  const servings = meal.servings ?? DEFAULT_SERVINGS;
+  const ingredients = getIngredients(meal);
+  const steps = recipeSteps(meal.recipe);
+  const nutrition = nutritionParts(meal);
+  const pdf = createPdfLayout();
+
+  const heading = (text: string) => {
+    // Een kop nooit als laatste regel onderaan een pagina
+    pdf.ensureSpace(60);
+    pdf.space(18);
+    pdf.text(text, { size: 15, font: "bold", color: HEADING_COLOR });
+    pdf.space(4);
+  };
+
+  pdf.text(meal.title, { size: 22, font: "bold", color: [0.1, 0.1, 0.12], lineHeight: 1.2 });
+  pdf.space(4);
+  pdf.text(metaParts(meal).join("  •  "), { size: 10, color: MUTED_COLOR });
+
+  if (photo) {
+    pdf.space(14);
+    pdf.image(photo, 300);
+  }
+  if (meal.description) {
+    pdf.space(10);
+    pdf.text(meal.description, { size: 11 });
+  }
+
+  if (ingredients.length > 0) {
+    heading(`Ingrediënten (${servingsLabel(servings)})`);
+    for (const ingredient of ingredients) {
+      pdf.text(formatIngredient(ingredient), { prefix: "•", indent: 14 });
+    }
+  }
+
+  if (steps.length > 0) {
+    heading("Bereiding");
+    for (const [index, step] of steps.entries()) {
+      pdf.text(step, { prefix: `${index + 1}.`, indent: 20 });
+      pdf.space(4);
+    }
+  }
+
+  if (nutrition.length > 0) {
+    heading("Voedingswaarden per portie");
+    pdf.text(nutrition.join("  •  "), { size: 10, color: MUTED_COLOR });
+  }
+
+  pdf.space(24);
+  pdf.text(`Gelogd door ${authorName(meal)} in MaaltijdPlus`, { size: 8, color: MUTED_COLOR });
+
+  return pdf.toBlob(meal.title);
+}
+
+// "Spinazie-lasagne met ricotta" -> "spinazie-lasagne-met-ricotta.pdf"
+export const recipeFileName = (meal: Pick<Meal, "title">, extension: string) => {
+  const slug = meal.title
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .substring(0, 60);
+  return `${slug || "recept"}.${extension}`;
+};
+
+export async function exportRecipe(meal: Meal, format: RecipeFormat): Promise<Blob> {
+  if (format === "jsonld") {
+    return new Blob([JSON.stringify(toRecipeJsonLd(meal), null, 2)], { type: "application/ld+json" });
+  }
+  if (format === "markdown") {
+    return new Blob([toRecipeMarkdown(meal)], { type: "text/markdown;charset=utf-8" });
+  }
+
+  // Zonder foto is een recept nog steeds bruikbaar; dat laten we niet aan de proxy hangen
+  let photo: PdfImage | null = null;
+  try {
+    photo = await loadPdfPhoto(meal);
+  } catch (error) {
+    console.error("Error loading photo for PDF:", error);
+  }
+  return buildRecipePdf(meal, photo);
+}
@@ -0,0 +1,116 @@
+import type { Meal } from "@/lib/meals";
+
+// Velden waarin gezocht wordt; titel en omschrijving staan al op de kaart
+const SNIPPET_FIELDS = [
+  { key: "ingredients", label: "Ingrediënten" },
+  { key: "recipe", label: "Recept" },
+  { key: "shoppingList", label: "Boodschappen" },
+] as const;
+
+const WORD_PATTERN = /[\p{L}\p{N}']+/gu;
+// Meervouden op -eren; een vaste lijst, want werkwoorden als "marineren" moeten blijven staan
+const EREN_PLURAL = /(ei|kalv|lamm|rund|blad)eren$/;
+const SNIPPET_LENGTH = 90;
+
+// "Crème" en "creme" worden hetzelfde
+export const normalizeText = (text: string) => text.normalize("NFD").replace(/\p{M}/gu, "").toLowerCase();
+
+/**
+ * Heel eenvoudige Nederlandse stemmer, genoeg om enkel- en meervoud gelijk te trekken:
+ * tomaten/tomaat, bonen/boon, kippen/kip, kazen/kaas, druiven/druif, paprika's/paprika,
+ * eieren/ei.
+ */
+export function stemDutch(word: string): string {
+  let stem = normalizeText(word);
+
+  if (EREN_PLURAL.test(stem)) {
+    stem = stem.replace(EREN_PLURAL, "$1"); // eieren -> ei, kalveren -> kalv
+  } else if (stem.endsWith("'s")) {
+    stem = stem.slice(0, -2);
+  } else if (stem.endsWith("en") && (stem.length > 4 || stem.endsWith("ien"))) {
+    stem = stem.slice(0, -2);
+  } else if (/(?:[elrn]|[^aeiou][aeiou])s$/.test(stem) && stem.length > 3) {
+    // Meervoud op -s (wortels, champignons, courgettes), maar niet na een lange klinker zoals in "kaas" of "muis"
+    stem = stem.slice(0, -1);
+  }
+
+  stem = stem
+    .replace(/([^aeiou])\1$/, "$1") // kipp -> kip
+    .replace(/z$/, "s") // kaz -> kas
+    .replace(/v$/, "f") // druiv -> druif
+    .replace(/(aa|ee|oo|uu)(?=[^aeiou]*$)/, match => match[0]); // tomaat -> tomat, boon -> bon
+
+  return stem;
+}
+
+export interface SearchTerm {
+  normalized: string;
+  stem: string;
+}
+
+// Meerdere woorden betekenen EN: elke term moet ergens in de maaltijd voorkomen
+export function parseSearchQuery(queryText: string): SearchTerm[] {
+  const words = normalizeText(queryText).match(WORD_PATTERN) ?? [];
+  const unique = Array.from(new Set(words.map(word => word.replace(/'/g, "")).filter(Boolean)));
+  return unique.map(word => ({ normalized: word, stem: stemDutch(word) }));
+}
+
+// Zoeken op het begin van een woord ("courg" vindt courgette); hele korte termen zoals "ui" moeten exact matchen
+const wordMatches = (word: string, term: SearchTerm) => {
+  const normalized = normalizeText(word);
+  const stem = stemDutch(word);
+  if (term.normalized.length <= 2) return normalized === term.normalized || stem === term.stem;
+  return normalized.startsWith(term.normalized) || stem.startsWith(term.stem);
+};
+
+const textMatches = (text: string | undefined, term: SearchTerm) =>
+  !!text && (text.match(WORD_PATTERN) ?? []).some(word => wordMatches(word, term));
+
+const searchableTexts = (meal: Meal) => [meal.title, meal.description, meal.ingredients, meal.recipe, meal.shoppingList];
+
+export function mealMatchesSearch(meal: Meal, terms: SearchTerm[]): boolean {
+  if (terms.length === 0) return true;
+  const texts = searchableTexts(meal);
+  return terms.every(term => texts.some(text => textMatches(text, term)));
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+// Splitst de originele tekst in stukken, met hele woorden gemarkeerd als ze op een term lijken
+export function highlightSegments(text: string, terms: SearchTerm[]): HighlightSegment[] {
+  if (terms.length === 0 || !text) return [{ text, match: false }];
+
+  const segments: HighlightSegment[] = [];
+  let last = 0;
+  for (const found of text.matchAll(WORD_PATTERN)) {
+    const index = found.index ?? 0;
+    if (!terms.some(term => wordMatches(found[0], term))) continue;
+    if (index > last) segments.push({ text: text.slice(last, index), match: false });
+    segments.push({ text: found[0], match: true });
+    last = index + found[0].length;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last), match: false });
+  return segments;
+}
+
+/**
+ * Als de treffer niet in titel of omschrijving zit, de regel uit ingrediënten,
+ * recept of boodschappenlijst waarin hij wel staat, zodat de kaart kan laten zien waarom.
+ */
+export function findSearchSnippet(meal: Meal, terms: SearchTerm[]): { label: string; text: string } | null {
+  if (terms.length === 0) return null;
+  const unmatched = terms.filter(term => !textMatches(meal.title, term) && !textMatches(meal.description, term));
+  if (unmatched.length === 0) return null;
+
+  for (const field of SNIPPET_FIELDS) {
+    const line = meal[field.key]?.split("\n").find(candidate => unmatched.some(term => textMatches(candidate, term)));
+    if (!line) continue;
+
+    const text = line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, "").trim();
+    return { label: field.label, text: text.length > SNIPPET_LENGTH ? `${text.slice(0, SNIPPET_LENGTH)}…` : text };
+  }
+  return null;
+}
@@ -0,0 +1,96 @@
+export const DEFAULT_SERVINGS = 2; // oudere maaltijden zijn altijd voor 2 personen geanalyseerd
+export const MIN_SERVINGS = 1;
+export const MAX_SERVINGS = 12;
+export const SERVING_OPTIONS = [1, 2, 3, 4, 6];
+
+export function clampServings(value: unknown): number {
+  const num = Math.round(Number(value));
+  if (!Number.isFinite(num)) return DEFAULT_SERVINGS;
+  return Math.min(Math.max(num, MIN_SERVINGS), MAX_SERVINGS);
+}
+
+export const servingsLabel = (servings: number) => `${servings} ${servings === 1 ? "persoon" : "personen"}`;
+
+const FRACTIONS: Record<string, number> = { "½": 0.5, "¼": 0.25, "¾": 0.75 };
+
+// Eén hoeveelheid: "500", "1,5", "1/2" of "½". Gedeeld met lib/ingredients, zodat schalen en
+// inlezen dezelfde getallen herkennen. Een getal dat bij de productnaam hoort ("5-granen brood",
+// "kaas 48+", "2% melk") is geen hoeveelheid.
+export const AMOUNT = String.raw`(?:\d+\/\d+|\d+(?:[.,]\d+)?|[½¼¾])(?![\d.,\/%+]|\s*[-–]\s*\p{L})`;
+export const LIST_MARKER = /^\s*(?:[-*•]|\d+[.)])\s+/;
+
+// Gewicht en volume rekenen we om naar gram en milliliter om te kunnen optellen en schalen
+export const METRIC_UNITS: Record<string, { base: string; factor: number; unit: string }> = {
+  g: { base: "g", factor: 1, unit: "g" }, gr: { base: "g", factor: 1, unit: "g" }, gram: { base: "g", factor: 1, unit: "g" },
+  kg: { base: "g", factor: 1000, unit: "kg" }, kilo: { base: "g", factor: 1000, unit: "kg" },
+  ml: { base: "ml", factor: 1, unit: "ml" }, cl: { base: "ml", factor: 10, unit: "cl" }, dl: { base: "ml", factor: 100, unit: "dl" },
+  l: { base: "ml", factor: 1000, unit: "l" }, liter: { base: "ml", factor: 1000, unit: "l" },
+};
+
+// Na het schalen 1000 g als 1 kg en 0,5 l als 500 ml
+export const normalizeMetric = (quantity: number, unit: string): { quantity: number; unit: string } => {
+  const metric = METRIC_UNITS[unit.toLowerCase()];
+  if (!metric) return { quantity, unit };
+  const base = quantity * metric.factor;
+  return base >= 1000
+    ? { quantity: base / 1000, unit: metric.base === "g" ? "kg" : "l" }
+    : { quantity: base, unit: metric.base };
+};
+
+// De hoeveelheid vooraan een product: "500g", "1,5 l", "1/2 ui", "½ citroen" of "2-3 uien"
+const METRIC_UNIT_PATTERN = Object.keys(METRIC_UNITS).sort((a, b) => b.length - a.length).join("|");
+const LEADING_AMOUNT_PATTERN = new RegExp(String.raw`^(\s*)(${AMOUNT})(?:(\s*[-–]\s*)(${AMOUNT}))?(\s*)(${METRIC_UNIT_PATTERN})?\b`, "iu");
+
+export const parseAmount = (value: string) => {
+  if (value in FRACTIONS) return FRACTIONS[value];
+  if (value.includes("/")) {
+    const [numerator, denominator] = value.split("/").map(Number);
+    return denominator ? numerator / denominator : numerator;
+  }
+  return parseFloat(value.replace(",", "."));
+};
+
+const QUARTERS = ["¼", "½", "¾", "1"];
+
+export const formatAmount = (value: number) => {
+  // Onder de 1 in kwarten: een halve citroen voor één persoon wordt "¼", niet "0,3"
+  if (value > 0 && value < 1) return QUARTERS[Math.max(1, Math.round(value * 4)) - 1];
+  if (value >= 100) return String(Math.round(value / 5) * 5);
+  if (value >= 10) return String(Math.round(value));
+  return String(Math.round(value * 10) / 10).replace(".", ",");
+};
+
+const scaleLeadingAmount = (item: string, factor: number) =>
+  item.replace(LEADING_AMOUNT_PATTERN, (match, indent: string, first: string, dash = "", second = "", space: string, unit = "") => {
+    let values = [first, second].filter(Boolean).map(value => parseAmount(value) * factor);
+    let scaledUnit = unit;
+    const metric = METRIC_UNITS[unit.toLowerCase()];
+    if (metric) {
+      // De eerste waarde bepaalt de eenheid, zodat een bereik niet half in g en half in kg staat
+      scaledUnit = normalizeMetric(values[0], unit).unit;
+      values = values.map(value => value * metric.factor / METRIC_UNITS[scaledUnit].factor);
+    }
+    const [scaledFirst, scaledSecond] = values.map(formatAmount);
+    return `${indent}${scaledFirst}${second ? `${dash}${scaledSecond}` : ""}${scaledUnit !== unit ? " " : space}${scaledUnit}`;
+  });
+
+/**
+ * Schaalt de hoeveelheden in een vrije-tekst boodschappenlijst: per product alleen het
+ * getal vooraan, ook in "Groenten: 200g spinazie, 2 uien". Nummering aan het begin van
+ * een regel ("1. ...") blijft ongemoeid; gram en milliliter gaan zo nodig naar kg en l.
+ */
+export function scaleQuantities(text: string, from: number, to: number): string {
+  if (!text || from === to || from <= 0) return text;
+  const factor = to / from;
+
+  return text
+    .split("\n")
+    .map(line => {
+      const marker = line.match(LIST_MARKER)?.[0] ?? "";
+      const rest = line.slice(marker.length);
+      const heading = marker ? "" : rest.match(/^[^:\d]+:\s*/)?.[0] ?? "";
+      const items = rest.slice(heading.length).split(/(,\s+)/);
+      return marker + heading + items.map((item, index) => index % 2 === 0 ? scaleLeadingAmount(item, factor) : item).join("");
+    })
+    .join("\n");
+}
@@ -0,0 +1,147 @@
+import { normalizeText, stemDutch } from "@/lib/search";
+import { LIST_MARKER, METRIC_UNITS, formatAmount } from "@/lib/servings";
+import {
+  DEPARTMENTS,
+  Ingredient,
+  OTHER_DEPARTMENT,
+  parseIngredient,
+  pluralOf,
+  toDepartment,
+} from "@/lib/ingredients";
+
+export interface ShoppingSource {
+  id: string;
+  title: string;
+  shoppingList?: string;
+  ingredientList?: Ingredient[]; // gebruikt als er geen boodschappenlijst is
+}
+
+export interface ShoppingAmount {
+  quantity: number;
+  unit: string; // "" voor stuks, anders de enkelvoudsvorm ("g", "ml", "potje", ...)
+}
+
+export interface ShoppingItem {
+  key: string;
+  name: string;
+  department: string;
+  amounts: ShoppingAmount[]; // één per soort eenheid; 200 g en 1 bos tellen we niet bij elkaar op
+  unquantified: boolean; // ergens zonder hoeveelheid genoemd, zoals "zout"
+  sources: string[]; // titels van de maaltijden waar het voor nodig is
+}
+
+export interface ShoppingGroup {
+  department: string;
+  items: ShoppingItem[];
+}
+
+// Enkel- en meervoud, hoofdletters en toevoegingen tussen haakjes maken voor het samenvoegen niet uit
+const itemKey = (name: string) =>
+  (normalizeText(name.replace(/\(.*?\)/g, "")).match(/[\p{L}\p{N}]+/gu) ?? []).map(stemDutch).join(" ");
+
+// Gewicht en volume naar gram en milliliter, zodat 1 kg en 200 g bij elkaar opgeteld kunnen worden
+const toShoppingAmount = ({ quantity, unit }: Pick<Ingredient, "quantity" | "unit">): ShoppingAmount | null => {
+  if (quantity === null) return null;
+  const metric = METRIC_UNITS[unit];
+  return metric ? { quantity: quantity * metric.factor, unit: metric.base } : { quantity, unit };
+};
+
+export const hasShoppingItems = (source: ShoppingSource) => !!source.shoppingList?.trim() || (source.ingredientList?.length ?? 0) > 0;
+
+// Regels uit de vrije-tekst lijst, of de ingrediënten als die er niet is; met de afdeling waar ze onder vallen
+function sourceEntries(source: ShoppingSource): { department: string; ingredient: Ingredient }[] {
+  if (!source.shoppingList?.trim()) {
+    // Opnieuw door toDepartment, zodat eerder verkeerd opgeslagen of zelf getypte afdelingen toch goed groeperen
+    return (source.ingredientList ?? []).map(ingredient => ({
+      department: ingredient.department ? toDepartment(ingredient.department) : OTHER_DEPARTMENT,
+      ingredient,
+    }));
+  }
+
+  const entries: { department: string; ingredient: Ingredient }[] = [];
+  let department = OTHER_DEPARTMENT;
+  for (const rawLine of source.shoppingList.split("\n")) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    // Koppen als "Groenten:", "**Zuivel**" of "## Houdbaar"
+    const bare = line.replace(/^#+\s*/, "").replace(/\*\*/g, "").trim();
+    const inline = bare.match(/^([^:]+):\s*(.*)$/);
+    const isHeading = !LIST_MARKER.test(line) && (!!inline || /^#+\s/.test(line) || /^\*\*.+\*\*:?$/.test(line));
+    let texts: string[];
+    if (isHeading) {
+      department = toDepartment((inline?.[1] ?? bare).trim());
+      // "Groenten: spinazie, tomaten" op één regel
+      texts = inline?.[2] ? inline[2].split(/,\s*/) : [];
+    } else {
+      texts = [line];
+    }
+
+    for (const text of texts) {
+      const ingredient = parseIngredient(text);
+      if (ingredient) entries.push({ department, ingredient });
+    }
+  }
+  return entries;
+}
+
+/**
+ * Voegt de boodschappenlijsten van meerdere maaltijden samen: dezelfde producten worden
+ * opgeteld (per eenheid) en alles wordt per AH-afdeling gegroepeerd. Maaltijden zonder
+ * vrije-tekst lijst doen mee met hun ingrediënten.
+ * Een product blijft in de afdeling waar het het eerst genoemd werd.
+ */
+export function mergeShoppingLists(sources: ShoppingSource[]): ShoppingGroup[] {
+  const items = new Map<string, ShoppingItem>();
+
+  for (const source of sources) {
+    for (const { department, ingredient } of sourceEntries(source)) {
+      // De notitie ("fijngesneden") is voor de kok, niet voor in de winkel
+      const key = itemKey(ingredient.name);
+      if (!key) continue;
+
+      const item = items.get(key) ?? { key, name: ingredient.name, department, amounts: [], unquantified: false, sources: [] };
+      const amount = toShoppingAmount(ingredient);
+      if (amount) {
+        const existing = item.amounts.find(a => a.unit === amount.unit);
+        if (existing) existing.quantity += amount.quantity;
+        else item.amounts.push(amount);
+      } else {
+        item.unquantified = true;
+      }
+      if (!item.sources.includes(source.title)) item.sources.push(source.title);
+      items.set(key, item);
+    }
+  }
+
+  const order = [...DEPARTMENTS.map(department => department.name)];
+  const groups = new Map<string, ShoppingItem[]>();
+  for (const item of items.values()) {
+    groups.set(item.department, [...(groups.get(item.department) ?? []), item]);
+  }
+  const rank = (department: string) => department === OTHER_DEPARTMENT ? Infinity : (order.indexOf(department) + 1 || order.length + 1);
+
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => rank(a) - rank(b) || a.localeCompare(b))
+    .map(([department, groupItems]) => ({ department, items: groupItems.sort((a, b) => a.name.localeCompare(b.name)) }));
+}
+
+const formatShoppingAmount = ({ quantity, unit }: ShoppingAmount) => {
+  if (unit === "g" && quantity >= 1000) return `${formatAmount(quantity / 1000)} kg`;
+  if (unit === "ml" && quantity >= 1000) return `${formatAmount(quantity / 1000)} l`;
+  if (unit === "g" || unit === "ml") return `${formatAmount(quantity)} ${unit}`;
+  if (!unit) return formatAmount(quantity);
+  return `${formatAmount(quantity)} ${quantity > 1 ? pluralOf(unit) : unit}`;
+};
+
+export const formatItemAmount = (item: ShoppingItem) => item.amounts.map(formatShoppingAmount).join(" + ");
+
+// Platte tekst om te appen of te mailen; afgevinkte producten laten we weg
+export function shoppingListToText(groups: ShoppingGroup[], mealTitles: string[], checked: Set<string> = new Set()): string {
+  const sections = groups
+    .map(group => ({ ...group, items: group.items.filter(item => !checked.has(item.key)) }))
+    .filter(group => group.items.length > 0)
+    .map(group => `${group.department}:\n${group.items.map(item => `- ${[formatItemAmount(item), item.name].filter(Boolean).join(" ")}`).join("\n")}`);
+
+  return `🛒 Boodschappen voor ${mealTitles.join(", ")}\n\n${sections.join("\n\n")}`;
+}
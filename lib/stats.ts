@@ -0,0 +1,127 @@
+import type { Meal } from "@/lib/meals";
+import { WEEKDAY_LABELS, startOfWeek, toDateKey } from "@/lib/dateRange";
+
+export type StatsPeriod = "week" | "month";
+
+export interface PeriodAverage {
+  key: string; // begin van de periode als "YYYY-MM-DD"
+  label: string;
+  average: number | null; // null als er in die periode geen scores zijn
+  count: number;
+}
+
+export interface MemberStats {
+  userId: string;
+  name: string;
+  count: number;
+  average: number | null;
+  healthyShare: number; // deel van de maaltijden met score 7 of hoger (0-1)
+  averageCalories: number | null;
+}
+
+const HEALTHY_SCORE = 7;
+
+const parseDate = (dateKey: string) => new Date(`${dateKey}T00:00:00`);
+const hasScore = (meal: Meal): meal is Meal & { healthScore: number } => typeof meal.healthScore === "number";
+export const memberName = (meal: Pick<Meal, "userEmail">) => meal.userEmail.split("@")[0];
+
+const average = (values: number[]) => values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+export const roundScore = (value: number | null) => value === null ? null : Math.round(value * 10) / 10;
+
+const periodStart = (dateKey: string, period: StatsPeriod) => {
+  const date = parseDate(dateKey);
+  return toDateKey(period === "week" ? startOfWeek(date) : new Date(date.getFullYear(), date.getMonth(), 1));
+};
+
+const periodLabel = (key: string, period: StatsPeriod) => {
+  const date = parseDate(key);
+  return period === "week"
+    ? date.toLocaleDateString("nl-NL", { day: "numeric", month: "short" })
+    : date.toLocaleDateString("nl-NL", { month: "short", year: "2-digit" });
+};
+
+/**
+ * Gemiddelde gezondheidsscore per week of maand, oudste periode eerst.
+ * Maaltijden zonder score tellen wel mee in count, niet in het gemiddelde.
+ */
+export function averageByPeriod(meals: Meal[], period: StatsPeriod): PeriodAverage[] {
+  const groups = new Map<string, Meal[]>();
+  for (const meal of meals) {
+    if (!meal.date) continue;
+    const key = periodStart(meal.date, period);
+    groups.set(key, [...(groups.get(key) ?? []), meal]);
+  }
+
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, group]) => ({
+      key,
+      label: periodLabel(key, period),
+      average: roundScore(average(group.filter(hasScore).map(meal => meal.healthScore))),
+      count: group.length,
+    }));
+}
+
+// Dezelfde perioden voor iedereen, zodat de lijnen in de trendgrafiek gelijk lopen
+export function trendPerMember(meals: Meal[], period: StatsPeriod): { periods: PeriodAverage[]; members: { userId: string; name: string; values: (number | null)[] }[] } {
+  const periods = averageByPeriod(meals, period);
+  const byUser = new Map<string, Meal[]>();
+  for (const meal of meals) {
+    byUser.set(meal.userId, [...(byUser.get(meal.userId) ?? []), meal]);
+  }
+
+  const members = Array.from(byUser.entries()).map(([userId, userMeals]) => {
+    const averages = new Map(averageByPeriod(userMeals, period).map(p => [p.key, p.average]));
+    return { userId, name: memberName(userMeals[0]), values: periods.map(p => averages.get(p.key) ?? null) };
+  });
+  return { periods, members: members.sort((a, b) => a.name.localeCompare(b.name)) };
+}
+
+// Aantal maaltijden per weekdag, maandag eerst
+export function mealsPerWeekday(meals: Meal[]): { label: string; count: number }[] {
+  const counts = WEEKDAY_LABELS.map(() => 0);
+  for (const meal of meals) {
+    if (!meal.date) continue;
+    counts[(parseDate(meal.date).getDay() + 6) % 7]++;
+  }
+  return WEEKDAY_LABELS.map((label, index) => ({ label, count: counts[index] }));
+}
+
+export function bestAndWorstMeals(meals: Meal[], count = 3): { best: Meal[]; worst: Meal[] } {
+  const scored = meals.filter(hasScore).sort((a, b) => b.healthScore - a.healthScore || b.date.localeCompare(a.date));
+  const best = scored.slice(0, count);
+  // Bij weinig maaltijden niet dezelfde maaltijd als beste én slechtste tonen
+  const worst = scored.slice(Math.max(scored.length - count, best.length)).reverse();
+  return { best, worst };
+}
+
+export function compareMembers(meals: Meal[]): MemberStats[] {
+  const byUser = new Map<string, Meal[]>();
+  for (const meal of meals) {
+    byUser.set(meal.userId, [...(byUser.get(meal.userId) ?? []), meal]);
+  }
+
+  return Array.from(byUser.entries())
+    .map(([userId, userMeals]) => {
+      const scores = userMeals.filter(hasScore).map(meal => meal.healthScore);
+      const calories = userMeals.map(meal => meal.nutrition?.calories).filter((value): value is number => typeof value === "number");
+      return {
+        userId,
+        name: memberName(userMeals[0]),
+        count: userMeals.length,
+        average: roundScore(average(scores)),
+        healthyShare: healthyShare(userMeals),
+        averageCalories: calories.length > 0 ? Math.round(average(calories) ?? 0) : null,
+      };
+    })
+    .sort((a, b) => (b.average ?? 0) - (a.average ?? 0));
+}
+
+export function healthyShare(meals: Meal[]): number {
+  const scored = meals.filter(hasScore);
+  return scored.length > 0 ? scored.filter(meal => meal.healthScore >= HEALTHY_SCORE).length / scored.length : 0;
+}
+
+export function overallAverage(meals: Meal[]): number | null {
+  return roundScore(average(meals.filter(hasScore).map(meal => meal.healthScore)));
+}
@@ -0,0 +1,56 @@
+export const MEAL_TYPES = [
+  { key: "ontbijt", label: "Ontbijt", emoji: "🥐" },
+  { key: "lunch", label: "Lunch", emoji: "🥪" },
+  { key: "diner", label: "Diner", emoji: "🍽️" },
+  { key: "snack", label: "Snack", emoji: "🍪" },
+] as const;
+
+export const CUISINES = [
+  { key: "nederlands", label: "Nederlands", emoji: "🇳🇱" },
+  { key: "italiaans", label: "Italiaans", emoji: "🇮🇹" },
+  { key: "frans", label: "Frans", emoji: "🇫🇷" },
+  { key: "spaans", label: "Spaans", emoji: "🇪🇸" },
+  { key: "grieks", label: "Grieks", emoji: "🇬🇷" },
+  { key: "midden-oosters", label: "Midden-Oosters", emoji: "🧆" },
+  { key: "indiaas", label: "Indiaas", emoji: "🇮🇳" },
+  { key: "chinees", label: "Chinees", emoji: "🇨🇳" },
+  { key: "japans", label: "Japans", emoji: "🇯🇵" },
+  { key: "thais", label: "Thais", emoji: "🇹🇭" },
+  { key: "indonesisch", label: "Indonesisch", emoji: "🇮🇩" },
+  { key: "mexicaans", label: "Mexicaans", emoji: "🇲🇽" },
+  { key: "amerikaans", label: "Amerikaans", emoji: "🇺🇸" },
+  { key: "overig", label: "Overig", emoji: "🌍" },
+] as const;
+
+export type MealType = (typeof MEAL_TYPES)[number]["key"];
+export type Cuisine = (typeof CUISINES)[number]["key"];
+
+export const MAX_TAGS = 8;
+export const MAX_TAG_LENGTH = 24;
+
+const MEAL_TYPE_KEYS: readonly string[] = MEAL_TYPES.map(t => t.key);
+const CUISINE_KEYS: readonly string[] = CUISINES.map(c => c.key);
+
+const pickKey = <T extends string>(raw: unknown, allowed: readonly string[]): T | undefined => {
+  if (typeof raw !== "string") return undefined;
+  const key = raw.trim().toLowerCase();
+  return allowed.includes(key) ? (key as T) : undefined;
+};
+
+export const normalizeMealType = (raw: unknown) => pickKey<MealType>(raw, MEAL_TYPE_KEYS);
+export const normalizeCuisine = (raw: unknown) => pickKey<Cuisine>(raw, CUISINE_KEYS);
+
+// Vrije tags: kleine letters, zonder "#", zonder dubbelingen
+export const normalizeTag = (raw: string) => raw.trim().replace(/^#+/, "").replace(/\s+/g, " ").toLowerCase().substring(0, MAX_TAG_LENGTH);
+
+export function normalizeTags(raw: unknown): string[] {
+  if (!Array.isArray(raw)) return [];
+  const tags = raw
+    .filter((value): value is string => typeof value === "string")
+    .map(normalizeTag)
+    .filter(Boolean);
+  return Array.from(new Set(tags)).slice(0, MAX_TAGS);
+}
+
+export const mealTypeInfo = (key?: string | null) => MEAL_TYPES.find(t => t.key === key);
+export const cuisineInfo = (key?: string | null) => CUISINES.find(c => c.key === key);
@@ -1,8 +1,10 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import { createRateLimiter, rateLimitHeaders } from '@/lib/rateLimit';
 
-// In-memory store for rate limiting (Note: resets on serverless cold starts)
-const rateLimit = new Map<string, { count: number; timestamp: number }>();
+// Grove limiet per IP voor alle pagina's en API's (100 requests per 10 minuten).
+// In-memory: reset bij cold starts, de AI-analyse heeft daarnaast een eigen persistente limiet.
+const pageLimiter = createRateLimiter({ name: 'proxy', limit: 100, windowMs: 10 * 60 * 1000 });
 
 // Simple bot patterns
 const BOT_AGENTS = [
@@ -10,7 +12,7 @@ const BOT_AGENTS = [
   'python-requests', 'node-fetch', 'axios', 'curl', 'wget'
 ];
 
-export function proxy(request: NextRequest) {
+export async function proxy(request: NextRequest) {
   // 0. Handle favicon.ico to prevent 404 logs in some environments
   if (request.nextUrl.pathname === '/favicon.ico') {
     return NextResponse.next();
@@ -18,7 +20,6 @@ export function proxy(request: NextRequest) {
 
   const ip = request.headers.get('x-forwarded-for')?.split(',')[0] || request.headers.get('x-real-ip') || '127.0.0.1';
   const userAgent = request.headers.get('user-agent')?.toLowerCase() || '';
-  const now = Date.now();
 
   // 1. Basic Bot Detection
   const isBot = BOT_AGENTS.some(bot => userAgent.includes(bot));
@@ -27,33 +28,21 @@ export function proxy(request: NextRequest) {
     return new NextResponse('Access Denied: Automated requests not allowed.', { status: 403 });
   }
 
-  // 2. Rate Limiting (100 requests per 10 minutes per IP)
-  const windowMs = 10 * 60 * 1000;
-  const maxRequests = 100;
-
-  const currentLimit = rateLimit.get(ip);
-
-  if (!currentLimit || (now - currentLimit.timestamp) > windowMs) {
-    rateLimit.set(ip, { count: 1, timestamp: now });
-  } else {
-    currentLimit.count++;
-    if (currentLimit.count > maxRequests) {
-      console.warn(`[Security] Rate limit exceeded for IP: ${ip}`);
-      return new NextResponse('Too many requests. Please try again later.', { status: 429 });
-    }
+  // 2. Rate Limiting
+  const result = await pageLimiter.check(ip);
+  if (!result.allowed) {
+    console.warn(`[Security] Rate limit exceeded for IP: ${ip}`);
+    return new NextResponse('Too many requests. Please try again later.', {
+      status: 429,
+      headers: rateLimitHeaders(result),
+    });
   }
 
-  // Clean up old entries periodically (every 1000 requests)
-  if (rateLimit.size > 1000) {
-    const threshold = now - windowMs;
-    for (const [key, value] of rateLimit.entries()) {
-      if (value.timestamp < threshold) {
-        rateLimit.delete(key);
-      }
-    }
+  const response = NextResponse.next();
+  for (const [name, value] of Object.entries(rateLimitHeaders(result))) {
+    response.headers.set(name, value);
   }
-
-  return NextResponse.next();
+  return response;
 }
 
 // Apply middleware to sensitive routes